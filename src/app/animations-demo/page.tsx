@@ -3,6 +3,7 @@
 import { useRef, useState } from 'react';
 import { ChevronDown, Copy, Scissors, ClipboardPaste, Trash2, Undo2, ArrowRight, Info } from 'lucide-react';
 import { Popover } from '@/components/popover';
+import { getPlatformCapabilities } from '@/utils/get-platform-capabilities';
 import './dropdown-animations.css';
 
 type AnimationStyle =
@@ -88,7 +89,7 @@ function DropdownDemo({ animation }: { animation: AnimationStyle }) {
             position="block-end"
             linkToTrigger="name"
             role="menu"
-            className={`dropdown-menu dropdown-${animation}`}
+            className={`dropdown-menu dropdown-${animation} ${getPlatformCapabilities().startingStyle ? '' : 'dropdown-keyframes-enter'}`}
             onDismiss={() => setIsOpen(false)}
           >
             <div className="menu-items">
@@ -1,12 +1,13 @@
 'use client';
 
-import { useRef, useState, useId, useLayoutEffect, type ReactNode } from 'react';
+import { useRef, useState, useId, useEffect, useLayoutEffect, type ReactNode } from 'react';
 import invariant from 'tiny-invariant';
 import { ArrowRight, AlertTriangle, Info, ChevronDown } from 'lucide-react';
 import { combine } from '@/utils/combine';
 import { setStyle } from '@/utils/set-style';
 import { setAttribute } from '@/utils/set-attribute';
-import { supportsAnchorPositioning } from '@/utils/supports-anchor-positioning';
+import { useAnchorPositioningSupport } from '@/utils/use-anchor-positioning-support';
+import { bindAnchorPositioningPolyfill } from '@/utils/anchor-positioning-polyfill';
 import {
   bindArrowFallbackPositioning,
   type TArrowPlacement,
@@ -34,6 +35,7 @@ const placements: { id: Placement; name: string; description: string }[] = [
 const fallbackStrategies: { value: TFallbackStrategy; label: string }[] = [
   { value: 'update-on-change', label: 'Update on change' },
   { value: 'update-each-frame', label: 'Update each frame' },
+  { value: 'auto', label: 'Auto (observers)' },
 ];
 
 function ArrowPopover({
@@ -53,6 +55,7 @@ function ArrowPopover({
 }) {
   const popoverRef = useRef<HTMLDivElement>(null);
   const id = useId();
+  const supportsAnchors = useAnchorPositioningSupport();
 
   useLayoutEffect(() => {
     if (!isOpen) return;
@@ -68,7 +71,11 @@ function ArrowPopover({
       setAttribute(trigger, { attribute: 'aria-expanded', value: 'true' }),
     );
 
-    const useNativePositioning = fallbackStrategy === undefined && supportsAnchorPositioning();
+    // Shown before positioning is bound, so that the fallback measures the open popover
+    popover.showPopover();
+    cleanupFns.push(() => popover.hidePopover());
+
+    const useNativePositioning = fallbackStrategy === undefined && supportsAnchors;
 
     if (useNativePositioning) {
       const existingAnchorName = trigger.style.getPropertyValue('anchor-name');
@@ -80,28 +87,23 @@ function ArrowPopover({
       );
     } else {
       cleanupFns.push(
-        bindArrowFallbackPositioning(
-          popover,
-          trigger,
-          placement,
-          fallbackStrategy ?? 'update-on-change',
-        ),
+        bindArrowFallbackPositioning(popover, trigger, placement, {
+          strategy: fallbackStrategy ?? 'update-on-change',
+          shift: true,
+        }),
       );
     }
 
-    popover.showPopover();
-    cleanupFns.push(() => popover.hidePopover());
-
     cleanupFns.push(() => {
       trigger.removeAttribute('aria-expanded');
     });
 
     return combine(...cleanupFns);
-  }, [isOpen, id, triggerRef, placement, fallbackStrategy]);
+  }, [isOpen, id, triggerRef, placement, fallbackStrategy, supportsAnchors]);
 
   if (!isOpen) return null;
 
-  const useFallback = fallbackStrategy !== undefined || !supportsAnchorPositioning();
+  const useFallback = fallbackStrategy !== undefined || !supportsAnchors;
   const className = useFallback
     ? 'arrow-popover arrow-popover-fallback'
     : `arrow-popover arrow-popover-${placement}`;
@@ -167,6 +169,42 @@ function PlacementDemo({
   );
 }
 
+/**
+ * A popover positioned by the stylesheet alone: `popovertarget` makes the button its anchor
+ * and `.arrow-popover-bottom` sets its `position-area`. Where anchor positioning isn't
+ * supported, the polyfill reads the same CSS and positions it with the JS fallback.
+ */
+function PlainCssDemo() {
+  useEffect(() => bindAnchorPositioningPolyfill(), []);
+
+  return (
+    <section className="mx-auto mt-12 max-w-5xl rounded-2xl bg-white p-6 shadow-md dark:bg-gray-800">
+      <h2 className="mb-1 text-lg font-semibold text-gray-900 dark:text-gray-100">Plain CSS</h2>
+      <p className="mb-6 text-sm leading-relaxed text-gray-500 dark:text-gray-400">
+        No JavaScript positioning: the button opens the popover with{' '}
+        <code className="rounded bg-blue-500/10 px-1 py-0.5 text-xs text-blue-500">popovertarget</code>{' '}
+        and the stylesheet places it. Without CSS Anchor Positioning, the polyfill reads the
+        stylesheet and positions it instead. The polyfill can&apos;t apply{' '}
+        <code className="rounded bg-blue-500/10 px-1 py-0.5 text-xs text-blue-500">@position-try</code>{' '}
+        margins, so there the arrow stays on the declared side.
+      </p>
+      <div className="flex justify-center">
+        <button
+          type="button"
+          popoverTarget="plain-css-arrow-popover"
+          className="inline-flex items-center gap-2 rounded-lg bg-linear-to-br from-blue-500 to-blue-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition-colors hover:from-blue-600 hover:to-blue-700 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500"
+        >
+          Click me
+        </button>
+        <div id="plain-css-arrow-popover" popover="auto" className="arrow-popover arrow-popover-bottom">
+          <strong>Plain CSS Popover</strong>
+          <p>position-area: bottom center</p>
+        </div>
+      </div>
+    </section>
+  );
+}
+
 export default function ArrowsDemoPage() {
   const [forceFallback, setForceFallback] = useState(false);
   const [fallbackStrategy, setFallbackStrategy] = useState<TFallbackStrategy>('update-on-change');
@@ -191,12 +229,12 @@ export default function ArrowsDemoPage() {
           <div
             className={`flex items-center gap-1.5 rounded border px-2 py-1.5 text-xs transition-colors ${
               forceFallback
-                ? 'border-amber-300 bg-amber-50 text-amber-700 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-400'
+                ? 'border-blue-300 bg-blue-50 text-blue-700 dark:border-blue-500/30 dark:bg-blue-500/10 dark:text-blue-400'
                 : 'border-gray-200 bg-gray-50 text-gray-400 dark:border-gray-600 dark:bg-gray-700/50 dark:text-gray-500'
             }`}
           >
-            {forceFallback && <AlertTriangle className="h-3 w-3" />}
-            Arrows hidden in fallback mode
+            {forceFallback && <Info className="h-3 w-3" />}
+            Arrows drawn by the JS fallback
           </div>
           <div className="flex flex-col gap-1">
             <span className="text-xs text-gray-500 dark:text-gray-400">Fallback Strategy</span>
@@ -229,7 +267,7 @@ export default function ArrowsDemoPage() {
           <code className="rounded bg-blue-500/10 px-1.5 py-0.5 text-sm text-blue-500">
             clip-path: inset() margin-box
           </code>{' '}
-          technique. Arrows are hidden when CSS Anchor Positioning is not available.
+          technique. When CSS Anchor Positioning is not available, the JS fallback draws the arrow.
         </p>
       </header>
 
@@ -244,6 +282,8 @@ export default function ArrowsDemoPage() {
         ))}
       </main>
 
+      <PlainCssDemo />
+
       {/* Info section */}
       <footer className="mx-auto mt-12 grid max-w-5xl gap-6 lg:grid-cols-3">
         <div className="rounded-2xl bg-white p-6 shadow-md dark:bg-gray-800">
@@ -319,12 +359,18 @@ export default function ArrowsDemoPage() {
               </>,
               'Popover flips to the opposite side if there\'s not enough space',
               <>
-                <strong>Arrows are hidden</strong> — the auto-flip technique requires{' '}
+                The resolved side is exposed as{' '}
                 <code className="rounded bg-blue-500/10 px-1 py-0.5 text-xs text-blue-500">
-                  @position-try
+                  data-placement
                 </code>
+                , so a single arrow is drawn facing the trigger
+              </>,
+              <>
+                <code className="rounded bg-blue-500/10 px-1 py-0.5 text-xs text-blue-500">
+                  --popover-arrow-offset
+                </code>{' '}
+                points the arrow at the trigger&apos;s center, even after shifting
               </>,
-              'Positioning still works correctly, just without the arrow',
             ].map((item, i) => (
               <li key={i} className="flex gap-2 text-sm leading-relaxed text-gray-500 dark:text-gray-400">
                 <ArrowRight className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-500" />
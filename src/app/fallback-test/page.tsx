@@ -2,29 +2,77 @@
 
 import { useRef, useState } from 'react';
 import { ChevronDown } from 'lucide-react';
-import type { TPosition, TFallbackStrategy } from '@/components/popover';
+import type {
+  TPosition,
+  TFallbackStrategy,
+  TBoundary,
+  TAnchorHidden,
+  TPlacement,
+  TVirtualAnchor,
+} from '@/components/popover';
 import { Tooltip, useTooltip } from '@/components/tooltip';
+import { Menu, MenuItem } from '@/components/menu';
+import { createPointAnchor } from '@/utils/create-point-anchor';
 
 const positions: { value: TPosition; label: string }[] = [
-  { value: 'block-end', label: 'Bottom' },
-  { value: 'inline-end', label: 'Right' },
-  { value: 'block-end-trigger-inline-start', label: 'Bottom Left' },
+  { value: 'block-end', label: 'Bottom (block-end)' },
+  { value: 'inline-end', label: 'Right (inline-end)' },
+  { value: 'block-end-trigger-inline-start', label: 'Bottom Left (block-end-trigger-inline-start)' },
+  { value: 'top', label: 'Top (top)' },
+  { value: 'top-start', label: 'Top Start (top-start)' },
+  { value: 'top-end', label: 'Top End (top-end)' },
+  { value: 'bottom', label: 'Bottom (bottom)' },
+  { value: 'bottom-start', label: 'Bottom Start (bottom-start)' },
+  { value: 'bottom-end', label: 'Bottom End (bottom-end)' },
+  { value: 'left', label: 'Left (left)' },
+  { value: 'left-start', label: 'Left Start (left-start)' },
+  { value: 'left-end', label: 'Left End (left-end)' },
+  { value: 'right', label: 'Right (right)' },
+  { value: 'right-start', label: 'Right Start (right-start)' },
+  { value: 'right-end', label: 'Right End (right-end)' },
 ];
 
+const anchorHiddenOptions: { value: TAnchorHidden; label: string }[] = [
+  { value: 'none', label: 'Do nothing' },
+  { value: 'hide', label: 'Hide' },
+  { value: 'close', label: 'Close' },
+];
+
+const fallbackOrders: { value: string; label: string; placements: TPlacement[] | undefined }[] = [
+  { value: 'default', label: 'Flip to the opposite side', placements: undefined },
+  { value: 'toolbar', label: 'Top, then right, then left', placements: ['top', 'right', 'left'] },
+  { value: 'never', label: 'Never move', placements: [] },
+];
+
+/** Margin used by the "Flip hysteresis" toggle */
+const FLIP_HYSTERESIS = 16;
+
 const fallbackStrategies: { value: TFallbackStrategy; label: string }[] = [
   { value: 'update-on-change', label: 'Update on change' },
   { value: 'update-each-frame', label: 'Update each frame' },
+  { value: 'auto', label: 'Auto (observers)' },
 ];
 
+type TTooltipOptions = {
+  position: TPosition;
+  fallbackStrategy: TFallbackStrategy | undefined;
+  shift: boolean;
+  boundary: TBoundary | undefined;
+  anchorHidden: TAnchorHidden;
+  fallbackPlacements: TPlacement[] | undefined;
+  hysteresis: number;
+};
+
 function TooltipButton({
   label,
   position,
   fallbackStrategy,
-}: {
-  label: string;
-  position: TPosition;
-  fallbackStrategy: TFallbackStrategy | undefined;
-}) {
+  shift,
+  boundary,
+  anchorHidden,
+  fallbackPlacements,
+  hysteresis,
+}: { label: string } & TTooltipOptions) {
   const buttonRef = useRef<HTMLButtonElement>(null);
   const { isOpen, setIsOpen, triggerProps } = useTooltip();
 
@@ -43,6 +91,11 @@ function TooltipButton({
         position={position}
         isOpen={isOpen}
         fallbackStrategy={fallbackStrategy}
+        shift={shift}
+        boundary={boundary}
+        anchorHidden={anchorHidden}
+        fallbackPlacements={fallbackPlacements}
+        hysteresis={hysteresis}
         onOpenChange={setIsOpen}
       >
         <span className="text-sm text-gray-700 dark:text-gray-300">
@@ -53,12 +106,59 @@ function TooltipButton({
   );
 }
 
+function ContextMenuArea({ fallbackStrategy }: { fallbackStrategy: TFallbackStrategy | undefined }) {
+  const [anchor, setAnchor] = useState<TVirtualAnchor | null>(null);
+
+  return (
+    <section
+      aria-label="Context menu area"
+      onContextMenu={(event) => {
+        event.preventDefault();
+        setAnchor(createPointAnchor({ x: event.clientX, y: event.clientY }, event.currentTarget));
+      }}
+      className="flex h-48 items-center justify-center rounded-lg border-2 border-dashed border-gray-300 bg-white text-sm text-gray-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-400"
+    >
+      Right-click anywhere in this area
+      {anchor && (
+        <Menu
+          anchor={anchor}
+          position="bottom-start"
+          isOpen
+          fallbackStrategy={fallbackStrategy}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              setAnchor(null);
+            }
+          }}
+        >
+          <MenuItem onClick={() => setAnchor(null)}>Cut</MenuItem>
+          <MenuItem onClick={() => setAnchor(null)}>Copy</MenuItem>
+          <MenuItem onClick={() => setAnchor(null)}>Paste</MenuItem>
+        </Menu>
+      )}
+    </section>
+  );
+}
+
 export default function FallbackTestPage() {
   const [position, setPosition] = useState<TPosition>('block-end');
   const [forceFallback, setForceFallback] = useState(true);
   const [fallbackStrategy, setFallbackStrategy] = useState<TFallbackStrategy>('update-on-change');
+  const [shift, setShift] = useState(false);
+  const [clipToScrollContainers, setClipToScrollContainers] = useState(false);
+  const [anchorHidden, setAnchorHidden] = useState<TAnchorHidden>('none');
+  const [fallbackOrder, setFallbackOrder] = useState('default');
+  const [preventJitter, setPreventJitter] = useState(false);
 
-  const effectiveFallbackStrategy = forceFallback ? fallbackStrategy : undefined;
+  const tooltipOptions: TTooltipOptions = {
+    position,
+    fallbackStrategy: forceFallback ? fallbackStrategy : undefined,
+    shift,
+    boundary: clipToScrollContainers ? 'clipping-ancestors' : undefined,
+    anchorHidden,
+    fallbackPlacements: fallbackOrders.find((order) => order.value === fallbackOrder)?.placements,
+    hysteresis: preventJitter ? FLIP_HYSTERESIS : 0,
+  };
 
   return (
     <div className="min-h-[300vh] overflow-auto bg-gray-50 p-8 dark:bg-gray-900">
@@ -85,6 +185,40 @@ export default function FallbackTestPage() {
               <ChevronDown className="pointer-events-none absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
             </div>
           </div>
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">When it doesn't fit</span>
+            <div className="relative">
+              <select
+                value={fallbackOrder}
+                onChange={(e) => setFallbackOrder(e.target.value)}
+                className="w-full appearance-none rounded-md border border-gray-300 bg-white py-1 pl-2 pr-8 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+              >
+                {fallbackOrders.map((order) => (
+                  <option key={order.value} value={order.value}>
+                    {order.label}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="pointer-events-none absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">When trigger scrolls out of view</span>
+            <div className="relative">
+              <select
+                value={anchorHidden}
+                onChange={(e) => setAnchorHidden(e.target.value as TAnchorHidden)}
+                className="w-full appearance-none rounded-md border border-gray-300 bg-white py-1 pl-2 pr-8 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+              >
+                {anchorHiddenOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="pointer-events-none absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            </div>
+          </div>
           <label className="flex cursor-pointer items-center gap-2">
             <input
               type="checkbox"
@@ -96,6 +230,42 @@ export default function FallbackTestPage() {
               Force fallback
             </span>
           </label>
+          <label className="flex cursor-pointer items-center gap-2">
+            <input
+              type="checkbox"
+              checked={shift}
+              onChange={(e) => setShift(e.target.checked)}
+              disabled={!forceFallback}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+            <span className="text-xs text-gray-700 dark:text-gray-300">
+              Shift into view
+            </span>
+          </label>
+          <label className="flex cursor-pointer items-center gap-2">
+            <input
+              type="checkbox"
+              checked={clipToScrollContainers}
+              onChange={(e) => setClipToScrollContainers(e.target.checked)}
+              disabled={!forceFallback}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+            <span className="text-xs text-gray-700 dark:text-gray-300">
+              Clip to scroll containers
+            </span>
+          </label>
+          <label className="flex cursor-pointer items-center gap-2">
+            <input
+              type="checkbox"
+              checked={preventJitter}
+              onChange={(e) => setPreventJitter(e.target.checked)}
+              disabled={!forceFallback}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+            <span className="text-xs text-gray-700 dark:text-gray-300">
+              Flip hysteresis ({FLIP_HYSTERESIS}px)
+            </span>
+          </label>
           <div className="flex flex-col gap-1">
             <span className="text-xs text-gray-500 dark:text-gray-400">Fallback Strategy</span>
             <div className="relative">
@@ -136,9 +306,9 @@ export default function FallbackTestPage() {
           Hover over buttons while scrolling the page. The tooltips should follow.
         </p>
         <div className="flex flex-wrap gap-4">
-          <TooltipButton label="Button 1" position={position} fallbackStrategy={effectiveFallbackStrategy} />
-          <TooltipButton label="Button 2" position={position} fallbackStrategy={effectiveFallbackStrategy} />
-          <TooltipButton label="Button 3" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+          <TooltipButton label="Button 1" {...tooltipOptions} />
+          <TooltipButton label="Button 2" {...tooltipOptions} />
+          <TooltipButton label="Button 3" {...tooltipOptions} />
         </div>
       </section>
 
@@ -154,28 +324,28 @@ export default function FallbackTestPage() {
           <div className="h-[600px] space-y-8 p-4">
             <div className="flex items-center gap-4">
               <span className="text-sm text-gray-500">Top of container:</span>
-              <TooltipButton label="Top Button" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+              <TooltipButton label="Top Button" {...tooltipOptions} />
             </div>
 
             <div className="h-32" />
 
             <div className="flex items-center gap-4">
               <span className="text-sm text-gray-500">Middle:</span>
-              <TooltipButton label="Middle Button" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+              <TooltipButton label="Middle Button" {...tooltipOptions} />
             </div>
 
             <div className="h-32" />
 
             <div className="flex items-center gap-4">
               <span className="text-sm text-gray-500">Lower middle:</span>
-              <TooltipButton label="Lower Button" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+              <TooltipButton label="Lower Button" {...tooltipOptions} />
             </div>
 
             <div className="h-32" />
 
             <div className="flex items-center gap-4">
               <span className="text-sm text-gray-500">Bottom of container:</span>
-              <TooltipButton label="Bottom Button" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+              <TooltipButton label="Bottom Button" {...tooltipOptions} />
             </div>
           </div>
         </div>
@@ -192,35 +362,35 @@ export default function FallbackTestPage() {
         <div className="grid grid-cols-3 gap-4">
           {/* Top row */}
           <div className="flex justify-start">
-            <TooltipButton label="Top Left" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Top Left" {...tooltipOptions} />
           </div>
           <div className="flex justify-center">
-            <TooltipButton label="Top Center" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Top Center" {...tooltipOptions} />
           </div>
           <div className="flex justify-end">
-            <TooltipButton label="Top Right" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Top Right" {...tooltipOptions} />
           </div>
 
           {/* Middle row */}
           <div className="flex justify-start py-16">
-            <TooltipButton label="Middle Left" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Middle Left" {...tooltipOptions} />
           </div>
           <div className="flex justify-center py-16">
-            <TooltipButton label="Center" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Center" {...tooltipOptions} />
           </div>
           <div className="flex justify-end py-16">
-            <TooltipButton label="Middle Right" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Middle Right" {...tooltipOptions} />
           </div>
 
           {/* Bottom row */}
           <div className="flex justify-start">
-            <TooltipButton label="Bottom Left" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Bottom Left" {...tooltipOptions} />
           </div>
           <div className="flex justify-center">
-            <TooltipButton label="Bottom Center" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Bottom Center" {...tooltipOptions} />
           </div>
           <div className="flex justify-end">
-            <TooltipButton label="Bottom Right" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+            <TooltipButton label="Bottom Right" {...tooltipOptions} />
           </div>
         </div>
       </section>
@@ -231,7 +401,7 @@ export default function FallbackTestPage() {
           <p className="text-gray-400 dark:text-gray-500 mb-4">
             More content to enable scrolling...
           </p>
-          <TooltipButton label="Far Down Button" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+          <TooltipButton label="Far Down Button" {...tooltipOptions} />
         </div>
       </div>
 
@@ -247,28 +417,39 @@ export default function FallbackTestPage() {
           <div className="w-[200%] p-4">
             <div className="flex gap-8">
               <div className="flex-shrink-0">
-                <TooltipButton label="Nested 1" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+                <TooltipButton label="Nested 1" {...tooltipOptions} />
               </div>
               <div className="flex-shrink-0">
-                <TooltipButton label="Nested 2" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+                <TooltipButton label="Nested 2" {...tooltipOptions} />
               </div>
               <div className="flex-shrink-0">
-                <TooltipButton label="Nested 3" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+                <TooltipButton label="Nested 3" {...tooltipOptions} />
               </div>
               <div className="flex-shrink-0">
-                <TooltipButton label="Nested 4" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+                <TooltipButton label="Nested 4" {...tooltipOptions} />
               </div>
               <div className="flex-shrink-0">
-                <TooltipButton label="Nested 5" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+                <TooltipButton label="Nested 5" {...tooltipOptions} />
               </div>
               <div className="flex-shrink-0">
-                <TooltipButton label="Nested 6" position={position} fallbackStrategy={effectiveFallbackStrategy} />
+                <TooltipButton label="Nested 6" {...tooltipOptions} />
               </div>
             </div>
           </div>
         </div>
       </section>
 
+      {/* Virtual anchor */}
+      <section className="mb-16">
+        <h2 className="mb-4 text-lg font-semibold text-gray-800 dark:text-gray-200">
+          Virtual Anchor
+        </h2>
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          A context menu positioned against the pointer instead of an element.
+        </p>
+        <ContextMenuArea fallbackStrategy={tooltipOptions.fallbackStrategy} />
+      </section>
+
       {/* Final spacer */}
       <div className="h-32 flex items-end justify-center pb-8">
         <p className="text-sm text-gray-400 dark:text-gray-500">
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { SidebarProvider } from "@/components/sidebar";
+import { anchorSupportScript } from "@/utils/anchor-support-script";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -24,7 +25,11 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    // data-anchor-support is set by the head script before hydration
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script>{anchorSupportScript}</script>
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
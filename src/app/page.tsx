@@ -1,9 +1,8 @@
 'use client';
 
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState } from 'react';
 import Link from 'next/link';
 import { Anchor, Layers, Zap, ArrowRight, Code2, Info } from 'lucide-react';
-import { supportsAnchorPositioning } from '@/utils/supports-anchor-positioning';
 import { Popover } from '@/components/popover';
 import { tw } from '@/utils/tw';
 
@@ -65,34 +64,22 @@ function FeatureCard({
   );
 }
 
+/**
+ * Both badges are rendered and `data-anchor-support` on `<html>` picks one, so the
+ * server-rendered page already shows the right badge before hydration
+ */
 function BrowserSupportBadge() {
-  const [isSupported, setIsSupported] = useState<boolean | null>(null);
-
-  useEffect(() => {
-    setIsSupported(supportsAnchorPositioning());
-  }, []);
-
-  if (isSupported === null) {
-    return null;
-  }
-
   return (
-    <div
-      className={`inline-flex items-center gap-2 rounded-full px-3 py-1.5 text-xs font-medium ${
-        isSupported
-          ? 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-400'
-          : 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400'
-      }`}
-    >
-      <span
-        className={`h-2 w-2 rounded-full ${
-          isSupported ? 'bg-green-500' : 'bg-amber-500'
-        }`}
-      />
-      {isSupported
-        ? 'Your browser supports CSS Anchor Positioning'
-        : 'Using JavaScript fallback'}
-    </div>
+    <>
+      <div className="hidden items-center gap-2 rounded-full bg-green-100 px-3 py-1.5 text-xs font-medium text-green-700 anchor-native:inline-flex dark:bg-green-500/20 dark:text-green-400">
+        <span className="h-2 w-2 rounded-full bg-green-500" />
+        Your browser supports CSS Anchor Positioning
+      </div>
+      <div className="hidden items-center gap-2 rounded-full bg-amber-100 px-3 py-1.5 text-xs font-medium text-amber-700 anchor-fallback:inline-flex dark:bg-amber-500/20 dark:text-amber-400">
+        <span className="h-2 w-2 rounded-full bg-amber-500" />
+        Using JavaScript fallback
+      </div>
+    </>
   );
 }
 
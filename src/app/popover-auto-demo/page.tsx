@@ -36,7 +36,8 @@ export default function PopoverAutoDemo() {
             Nested Dropdown Menus
           </h2>
           <p className="mb-6 text-sm text-gray-600 dark:text-gray-400">
-            Open the menu, then open submenus. Press Escape - it should only close the topmost menu.
+            Open the menu, then hover or click the submenus. Press Escape - it should only close the
+            topmost menu.
             Click outside to close all menus (light dismiss).
           </p>
           <NestedMenuDemo />
@@ -138,6 +139,7 @@ function NestedMenuDemo() {
           triggerRef={level2TriggerRef}
           position="inline-end"
           autoShow={false}
+          trigger={['click', 'hover']}
           className={menuClassName}
           linkToTrigger="none"
         >
@@ -161,6 +163,7 @@ function NestedMenuDemo() {
             triggerRef={level3TriggerRef}
             position="inline-end"
             autoShow={false}
+            trigger={['click', 'hover']}
             className={menuClassName}
             linkToTrigger="none"
           >
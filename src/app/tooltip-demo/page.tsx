@@ -9,11 +9,24 @@ const positions: { value: TPosition; label: string }[] = [
   { value: 'block-end', label: 'Bottom (block-end)' },
   { value: 'inline-end', label: 'Right (inline-end)' },
   { value: 'block-end-trigger-inline-start', label: 'Bottom Left (block-end-trigger-inline-start)' },
+  { value: 'top', label: 'Top (top)' },
+  { value: 'top-start', label: 'Top Start (top-start)' },
+  { value: 'top-end', label: 'Top End (top-end)' },
+  { value: 'bottom', label: 'Bottom (bottom)' },
+  { value: 'bottom-start', label: 'Bottom Start (bottom-start)' },
+  { value: 'bottom-end', label: 'Bottom End (bottom-end)' },
+  { value: 'left', label: 'Left (left)' },
+  { value: 'left-start', label: 'Left Start (left-start)' },
+  { value: 'left-end', label: 'Left End (left-end)' },
+  { value: 'right', label: 'Right (right)' },
+  { value: 'right-start', label: 'Right Start (right-start)' },
+  { value: 'right-end', label: 'Right End (right-end)' },
 ];
 
 const fallbackStrategies: { value: TFallbackStrategy; label: string }[] = [
   { value: 'update-on-change', label: 'Update on change' },
   { value: 'update-each-frame', label: 'Update each frame' },
+  { value: 'auto', label: 'Auto (observers)' },
 ];
 
 export default function TooltipDemoPage() {
@@ -1,10 +1,21 @@
 'use client';
 
 import { type ReactNode, type RefObject, useState } from 'react';
-import { Popover, type TPosition, type TFallbackStrategy } from './popover';
+import {
+  Popover,
+  type TPosition,
+  type TFallbackStrategy,
+  type TShift,
+  type TBoundary,
+  type TAnchorHidden,
+  type TOffset,
+  type TPlacement,
+  type TTryOrder,
+  type TVirtualAnchor,
+} from './popover';
 import { tw } from '@/utils/tw';
 
-export type { TPosition, TFallbackStrategy };
+export type { TPosition, TFallbackStrategy, TShift, TBoundary, TAnchorHidden, TOffset, TPlacement, TTryOrder, TVirtualAnchor };
 
 /**
  * Menu-specific styling for popovers.
@@ -14,25 +25,51 @@ const menuClassName = tw`m-0 min-w-[180px] rounded-xl border border-gray-200 bg-
 /**
  * A dropdown menu component built on top of Popover.
  * Uses popover="auto" for automatic stacking and light dismissal.
+ * Opening focuses the first item, and closing returns focus to the trigger.
  *
  * Uses CSS Anchor Positioning when available, with a JavaScript fallback
  * for browsers that don't support it.
  */
 export function Menu({
   triggerRef,
+  anchor,
   position = 'block-end',
   children,
   isOpen,
   fallbackStrategy,
+  shift,
+  boundary,
+  anchorHidden,
+  offset,
+  fallbackPlacements,
+  size,
+  tryOrder,
   onOpenChange,
 }: {
-  triggerRef: RefObject<HTMLElement | null>;
+  /** The button that opens the menu. Optional for context menus that use `anchor`. */
+  triggerRef?: RefObject<HTMLElement | null>;
+  /** Open at a point or rect instead of the trigger, e.g. the pointer position of a context menu */
+  anchor?: TVirtualAnchor;
   /** Position relative to the trigger. Defaults to 'block-end' (below). */
   position?: TPosition;
   children: ReactNode;
   isOpen: boolean;
   /** Force usage of a specific JavaScript fallback strategy */
   fallbackStrategy?: TFallbackStrategy;
+  /** Keep the fallback-positioned popover inside the viewport */
+  shift?: TShift;
+  /** The area the fallback keeps the popover within. Defaults to the viewport. */
+  boundary?: TBoundary;
+  /** What to do when the trigger scrolls out of view */
+  anchorHidden?: TAnchorHidden;
+  /** Distance from the trigger. Defaults to the Popover default. */
+  offset?: TOffset;
+  /** Placements to try, in order, when the popover doesn't fit at `position` */
+  fallbackPlacements?: TPlacement[];
+  /** Limit the menu to the available space so long menus scroll */
+  size?: boolean;
+  /** Which side to prefer when the menu doesn't fit. Defaults to the roomiest side when `size` is set. */
+  tryOrder?: TTryOrder;
   onOpenChange: (isOpen: boolean) => void;
 }) {
   if (!isOpen) {
@@ -42,11 +79,21 @@ export function Menu({
   return (
     <Popover
       triggerRef={triggerRef}
+      anchor={anchor}
       position={position}
       linkToTrigger="name"
       role="menu"
       className={menuClassName}
       fallbackStrategy={fallbackStrategy}
+      shift={shift}
+      boundary={boundary}
+      anchorHidden={anchorHidden}
+      offset={offset}
+      fallbackPlacements={fallbackPlacements}
+      size={size}
+      tryOrder={tryOrder}
+      initialFocus="first-tabbable"
+      returnFocus
       onDismiss={() => onOpenChange(false)}
     >
       {children}
@@ -6,26 +6,84 @@ import {
   type ReactNode,
   type Ref,
   type RefObject,
+  useEffect,
   useId,
   useLayoutEffect,
   useRef,
+  useState,
 } from 'react';
 import invariant from 'tiny-invariant';
-import { bind } from 'bind-event-listener';
 import type { TCleanupFn } from '@/types';
+import { bindAnchorProxy } from '@/utils/bind-anchor-proxy';
+import { bindAnchorVisibility } from '@/utils/bind-anchor-visibility';
+import { bindNativePlacement } from '@/utils/bind-native-placement';
+import {
+  bindPopoverFocus,
+  type TInitialFocus,
+  type TReturnFocus,
+} from '@/utils/bind-popover-focus';
+import { bindPopoverTrigger, type TPopoverTrigger } from '@/utils/bind-popover-trigger';
 import { combine } from '@/utils/combine';
 import { css } from '@/utils/css';
 import { mergeRefs } from '@/utils/merge-refs';
 import { setAttribute } from '@/utils/set-attribute';
 import { setStyle } from '@/utils/set-style';
 import { tw } from '@/utils/tw';
-import { supportsAnchorPositioning } from '@/utils/supports-anchor-positioning';
-import { bindFallbackPositioning, type TFallbackStrategy } from '@/utils/fallback-positioning';
+import { getPlatformCapabilities } from '@/utils/get-platform-capabilities';
+import { useAnchorPositioningSupport } from '@/utils/use-anchor-positioning-support';
+import {
+  bindFallbackPositioning,
+  getPlacementFromPosition,
+  type TFallbackStrategy,
+} from '@/utils/fallback-positioning';
+import {
+  type TBoundary,
+  type TOffset,
+  type TPlacement,
+  type TPositionOutput,
+  type TPositionStrategy,
+  type TShift,
+  type TTryOrder,
+  type TVirtualAnchor,
+  getAnchorElement,
+  getFlippedPlacement,
+  getShiftPadding,
+  isPlacement,
+  resolveOffset,
+} from '@/utils/placement-utils';
+import './popover-position-try.css';
 
-export type TPosition = 'inline-end' | 'block-end' | 'block-end-trigger-inline-start';
+/**
+ * Logical positions follow the popover's `direction` and `writing-mode` on both the
+ * native and fallback paths, while the extended placements
+ * (top/right/bottom/left with start/center/end alignment) are physical.
+ */
+export type TPosition = 'inline-end' | 'block-end' | 'block-end-trigger-inline-start' | TPlacement;
+export type {
+  TBoundary,
+  TOffset,
+  TOffsetValue,
+  TPlacement,
+  TPositionOutput,
+  TPositionStrategy,
+  TShift,
+  TShiftOptions,
+  TTryOrder,
+  TVirtualAnchor,
+} from '@/utils/placement-utils';
 export type { TFallbackStrategy } from '@/utils/fallback-positioning';
+export type { TPopoverTrigger } from '@/utils/bind-popover-trigger';
+export type { TInitialFocus, TReturnFocus } from '@/utils/bind-popover-focus';
 
 type TLinkToTrigger = 'name' | 'description' | 'none';
+
+/**
+ * What to do when the trigger scrolls out of view:
+ * - 'hide': keep the popover open but make it invisible until the trigger is back
+ * - 'close': close the popover (calls `onDismiss`)
+ * - 'none': leave the popover where it is
+ */
+export type TAnchorHidden = 'hide' | 'close' | 'none';
 type TMode = Exclude<HTMLAttributes<HTMLDivElement>['popover'], '' | undefined>;
 
 const attribute = {
@@ -37,13 +95,149 @@ const attribute = {
 /**
  * CSS classes for native anchor positioning.
  * These are only applied when CSS Anchor Positioning is supported.
+ * The insets read the main-axis offset from `--popover-offset`, which flips along with the placement.
  */
 const anchorPositionStyles: { [TKey in TPosition]: string } = {
-  'inline-end': tw`[position-area:inline-end] start-1 [position-try-fallbacks:flip-inline]`,
-  'block-end': tw`[position-area:block-end] top-1 [position-try-fallbacks:flip-block]`,
-  'block-end-trigger-inline-start': tw`[position-area:block-end_span-inline-end] top-1`,
+  'inline-end': tw`[position-area:inline-end] start-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+  'block-end': tw`[position-area:block-end] [inset-block-start:var(--popover-offset)] [position-try-fallbacks:flip-block]`,
+  'block-end-trigger-inline-start': tw`[position-area:block-end_span-inline-end] [inset-block-start:var(--popover-offset)]`,
+  top: tw`[position-area:top] bottom-(--popover-offset) [position-try-fallbacks:flip-block]`,
+  'top-start': tw`[position-area:top_span-right] bottom-(--popover-offset) [position-try-fallbacks:flip-block]`,
+  'top-end': tw`[position-area:top_span-left] bottom-(--popover-offset) [position-try-fallbacks:flip-block]`,
+  bottom: tw`[position-area:bottom] top-(--popover-offset) [position-try-fallbacks:flip-block]`,
+  'bottom-start': tw`[position-area:bottom_span-right] top-(--popover-offset) [position-try-fallbacks:flip-block]`,
+  'bottom-end': tw`[position-area:bottom_span-left] top-(--popover-offset) [position-try-fallbacks:flip-block]`,
+  left: tw`[position-area:left] right-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+  'left-start': tw`[position-area:left_span-bottom] right-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+  'left-end': tw`[position-area:left_span-top] right-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+  right: tw`[position-area:right] left-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+  'right-start': tw`[position-area:right_span-bottom] left-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+  'right-end': tw`[position-area:right_span-top] left-(--popover-offset) [position-try-fallbacks:flip-inline]`,
+};
+
+/**
+ * CSS classes that limit the popover to the space left on its side of the trigger, by axis.
+ * With native anchor positioning the containing block is the `position-area` region,
+ * so percentages resolve against the remaining space. The inset from `--popover-offset`
+ * isn't part of that space, so it is taken off on the main axis.
+ */
+const anchorSizeStyles: { [TKey in 'block' | 'inline']: string } = {
+  block: tw`max-h-[calc(100%_-_var(--popover-offset))] max-w-full overflow-auto`,
+  inline: tw`max-h-full max-w-[calc(100%_-_var(--popover-offset))] overflow-auto`,
+};
+
+/**
+ * CSS classes for each try order. The JavaScript fallback gets the same value as `tryOrder`.
+ */
+const anchorTryOrderStyles: { [TKey in TTryOrder]: string } = {
+  normal: '',
+  'most-height': tw`[position-try-order:most-height]`,
+  'most-width': tw`[position-try-order:most-width]`,
+  'most-block-size': tw`[position-try-order:most-block-size]`,
+  'most-inline-size': tw`[position-try-order:most-inline-size]`,
+};
+
+/**
+ * CSS classes that consume the available size published by the JavaScript fallback.
+ */
+const fallbackSizeStyles = tw`max-h-(--popover-available-height) max-w-(--popover-available-width) overflow-auto`;
+
+/**
+ * CSS class that hides the popover while its anchor is clipped or scrolled out of view.
+ */
+const anchorHiddenStyles = tw`[position-visibility:anchors-visible]`;
+
+/**
+ * CSS classes that skid the popover along the edge of the trigger.
+ * The main-axis offset is applied through the insets in `anchorPositionStyles`.
+ */
+const anchorCrossOffsetStyles: { [TKey in 'block' | 'inline']: string } = {
+  block: tw`[translate:var(--popover-cross-offset)_0]`,
+  inline: tw`[translate:0_var(--popover-cross-offset)]`,
 };
 
+/**
+ * Default main-axis offset in pixels. Matches the fallback's default gap.
+ */
+const defaultOffset = 4;
+
+/**
+ * Default close delay in milliseconds, long enough for the pointer to cross the offset
+ * gap from a hover trigger to the popover
+ */
+const defaultCloseDelay = 100;
+
+/**
+ * Resolved to a string so that an inline array doesn't re-run effects
+ */
+function getTriggerKey(trigger: TPopoverTrigger | TPopoverTrigger[]): string {
+  return (Array.isArray(trigger) ? trigger : [trigger]).join(' ');
+}
+
+/**
+ * The physical placement each logical position starts from in a left-to-right,
+ * horizontal writing mode.
+ */
+const logicalPositionPlacements = {
+  'inline-end': 'right',
+  'block-end': 'bottom',
+  'block-end-trigger-inline-start': 'bottom-start',
+} satisfies { [TKey in Exclude<TPosition, TPlacement>]: TPlacement };
+
+/**
+ * The `@position-try` rule for a placement, see popover-position-try.css
+ */
+function getPositionTryName(placement: TPlacement): string {
+  return `--popover-${placement}`;
+}
+
+/**
+ * The placement that was asked for, before any flipping
+ */
+function getRequestedPlacement(position: TPosition): TPlacement {
+  return isPlacement(position) ? position : logicalPositionPlacements[position];
+}
+
+/**
+ * The axis the popover is placed along, relative to its trigger.
+ */
+function getPositionAxis(position: TPosition): 'block' | 'inline' {
+  if (
+    position === 'inline-end' ||
+    position.startsWith('left') ||
+    position.startsWith('right')
+  ) {
+    return 'inline';
+  }
+  return 'block';
+}
+
+/**
+ * The try order to use. A size-limited popover always "fits", so by default
+ * it goes to whichever side of its axis has the most room.
+ */
+function getTryOrder(position: TPosition, size: boolean, tryOrder: TTryOrder | undefined): TTryOrder {
+  if (tryOrder) {
+    return tryOrder;
+  }
+  if (!size) {
+    return 'normal';
+  }
+  return getPositionAxis(position) === 'block' ? 'most-height' : 'most-width';
+}
+
+/**
+ * Adds CSS classes to an element and returns a cleanup function that removes them.
+ */
+function addClassNames(element: HTMLElement, classNames: string): TCleanupFn {
+  const tokens = classNames.split(' ').filter(Boolean);
+  element.classList.add(...tokens);
+
+  return function cleanup() {
+    element.classList.remove(...tokens);
+  };
+}
+
 /**
  * Default styling for popovers.
  */
@@ -73,6 +267,7 @@ const defaultPopoverClassName = tw`m-0 rounded border border-gray-200 bg-white p
 export function Popover({
   ref,
   triggerRef,
+  anchor,
   position,
   children,
   linkToTrigger = 'description',
@@ -80,12 +275,36 @@ export function Popover({
   mode = 'auto',
   testId,
   fallbackStrategy,
+  shift,
+  size = false,
+  boundary,
+  anchorHidden = 'none',
+  offset = defaultOffset,
+  fallbackPlacements,
+  onPlacementChange,
+  positionStrategy,
+  positionOutput,
+  tryOrder,
+  hysteresis = 0,
   className,
   onDismiss,
   autoShow = true,
+  trigger: triggerOption,
+  openDelay = 0,
+  closeDelay = defaultCloseDelay,
+  initialFocus = 'none',
+  returnFocus = false,
+  trapFocus = false,
 }: {
   ref?: Ref<HTMLDivElement>;
-  triggerRef: RefObject<HTMLElement | null>;
+  /** The element that opens the popover. Also the anchor, unless `anchor` is set. */
+  triggerRef?: RefObject<HTMLElement | null>;
+  /**
+   * Position against this instead of the trigger: a point for a context menu, a text selection
+   * `Range`, or a region of a canvas. Its rect is read again on every update. Pass a stable value
+   * to avoid re-binding on every render.
+   */
+  anchor?: TVirtualAnchor;
   position: TPosition;
   children: ReactNode;
   /** How to link the popover to the trigger for accessibility. Defaults to 'description'. */
@@ -96,69 +315,342 @@ export function Popover({
   testId?: string;
   /** Force usage of a specific JavaScript fallback strategy. If not set, uses native CSS Anchor Positioning when supported. */
   fallbackStrategy?: TFallbackStrategy;
+  /**
+   * Slide the popover along the cross axis so it stays in the viewport while remaining attached
+   * to the trigger. Only affects the JavaScript fallback; native anchor positioning already does this.
+   */
+  shift?: TShift;
+  /**
+   * Limit the popover's max width and height to the space left on its side of the trigger,
+   * so that long content scrolls instead of overflowing the viewport. Defaults to false.
+   */
+  size?: boolean;
+  /**
+   * The area the JavaScript fallback keeps the popover within, instead of the viewport.
+   * Pass a stable value (such as an element from a ref) to avoid re-binding on every render.
+   */
+  boundary?: TBoundary;
+  /** What to do when the trigger scrolls out of view. Defaults to 'none'. */
+  anchorHidden?: TAnchorHidden;
+  /**
+   * Distance from the trigger: a number (main axis), `{ mainAxis, crossAxis }`, or a function of
+   * the resolved placement. Defaults to 4. In native mode a function is resolved for the requested
+   * placement, as the browser decides about flipping.
+   */
+  offset?: TOffset;
+  /**
+   * Placements to try, in order, when the popover doesn't fit at `position`. Replaces the
+   * default flip (the opposite side). Used as named `position-try-fallbacks` in native mode
+   * and in the same order by the JavaScript fallback. Pass `[]` to never move.
+   */
+  fallbackPlacements?: TPlacement[];
+  /**
+   * Called with the placement the popover ended up in, when it is first shown and after every flip.
+   * The placement is also set as a `data-placement` attribute for styling, in both native and
+   * fallback modes.
+   */
+  onPlacementChange?: (placement: TPlacement) => void;
+  /**
+   * CSS `position` used by the JavaScript fallback. Defaults to 'fixed'. Either way the
+   * containing block is detected, so transformed or contained ancestors are accounted for.
+   */
+  positionStrategy?: TPositionStrategy;
+  /**
+   * How the JavaScript fallback writes the position: `top`/`left` (the default), the
+   * `translate` property, or only the `--popover-x`/`--popover-y` custom properties.
+   * `transform` is never written, so transform animations keep working.
+   */
+  positionOutput?: TPositionOutput;
+  /**
+   * How the requested placement and its fallbacks are ordered before the first that fits is
+   * picked, like `position-try-order`. Defaults to 'normal', or to the most room along the
+   * position's axis when `size` is set.
+   */
+  tryOrder?: TTryOrder;
+  /**
+   * Pixels of margin the JavaScript fallback requires before flipping to another side, and
+   * before flipping back. Stops a popover near the threshold from jittering while scrolling.
+   * Defaults to 0.
+   */
+  hysteresis?: number;
   /** Custom className. If not provided, default popover styling is applied. */
   className?: string;
   /** Callback when popover is dismissed. Required for controlled mode. */
   onDismiss?: () => void;
   /** If true (default), automatically shows the popover on mount. Set to false for uncontrolled mode. */
   autoShow?: boolean;
+  /**
+   * What opens and closes the popover through `triggerRef`: 'click', 'hover', 'focus' or
+   * 'manual', or several combined. Defaults to 'click' in uncontrolled mode and 'manual' in
+   * controlled mode. A controlled popover is only mounted while open, so these only close it,
+   * calling `onDismiss`; use `usePopoverTrigger` to open it.
+   */
+  trigger?: TPopoverTrigger | TPopoverTrigger[];
+  /** Milliseconds the pointer rests on a hover trigger before opening. Defaults to 0. */
+  openDelay?: number;
+  /**
+   * Milliseconds before closing once the pointer or focus has left the trigger and the popover.
+   * Defaults to 100.
+   */
+  closeDelay?: number;
+  /** Where focus goes when the popover opens. Defaults to 'none'. */
+  initialFocus?: TInitialFocus;
+  /**
+   * Where focus goes when the popover closes, if it was inside the popover. `true` returns it
+   * to the trigger. Defaults to false.
+   */
+  returnFocus?: TReturnFocus;
+  /** Keep Tab and Shift+Tab within the popover while it is open. Defaults to false. */
+  trapFocus?: boolean;
 }) {
   const ourRef = useRef<HTMLDivElement | null>(null);
   const id = useId();
+  // Resolved to primitives so that inline option objects don't re-run the effect
+  const shiftPadding = getShiftPadding(shift);
+  const offsetFn = typeof offset === 'function' ? offset : null;
+  const staticOffset = offsetFn ? null : resolveOffset(offset, getRequestedPlacement(position));
+  const offsetMainAxis = staticOffset?.mainAxis ?? 0;
+  const offsetCrossAxis = staticOffset?.crossAxis ?? 0;
+  const fallbackPlacementsKey = fallbackPlacements?.join(' ');
+  const resolvedTryOrder = getTryOrder(position, size, tryOrder);
+  const triggerKey = getTriggerKey(triggerOption ?? (autoShow ? 'manual' : 'click'));
+  // False while hydrating, so the server-rendered markup matches
+  const supportsAnchors = useAnchorPositioningSupport();
+  // Read through a ref so that an inline callback doesn't re-run the effect
+  const onPlacementChangeRef = useRef(onPlacementChange);
+  useLayoutEffect(() => {
+    onPlacementChangeRef.current = onPlacementChange;
+  });
 
   useLayoutEffect(() => {
     const popover = ourRef.current;
-    const trigger = triggerRef.current;
-    invariant(popover && trigger);
+    const trigger = triggerRef?.current ?? null;
+    const positionAnchor = anchor ?? trigger;
+    invariant(popover && positionAnchor);
 
     const cleanupFns: TCleanupFn[] = [];
+    const tryPlacements = fallbackPlacementsKey?.split(' ').filter(isPlacement);
+    const handlePlacementChange = (placement: TPlacement) => {
+      onPlacementChangeRef.current?.(placement);
+    };
 
     // Link the popover to the trigger for accessibility (if requested)
     const ariaAttribute = attribute[linkToTrigger];
-    if (ariaAttribute) {
+    if (ariaAttribute && trigger) {
       cleanupFns.push(
         setAttribute(trigger, { attribute: ariaAttribute, value: id }),
       );
     }
 
-    // Use native CSS Anchor Positioning if supported and no fallback strategy is forced
-    const useNativePositioning = supportsAnchorPositioning() && !fallbackStrategy;
+    const capabilities = getPlatformCapabilities();
+
+    if (autoShow && capabilities.popover) {
+      // Controlled mode: show the popover immediately.
+      // The `source` option tells the browser which element triggered this popover,
+      // which helps establish the ancestor relationship for nested popovers.
+      // See: https://html.spec.whatwg.org/multipage/popover.html#dom-htmlelement-showpopover
+      // Shown before positioning is bound, so that the fallback measures the open popover.
+      popover.showPopover(
+        capabilities.popoverSource && trigger ? { source: trigger } : undefined,
+      );
+    }
+
+    // Use native CSS Anchor Positioning if every feature this popover needs is supported
+    // and no fallback strategy is forced
+    const useNativePositioning =
+      supportsAnchors &&
+      capabilities.positionTryFallbacks &&
+      (resolvedTryOrder === 'normal' || capabilities.positionTryOrder) &&
+      !fallbackStrategy;
+    const resolvedOffset: TOffset = offsetFn ?? {
+      mainAxis: offsetMainAxis,
+      crossAxis: offsetCrossAxis,
+    };
 
     if (useNativePositioning) {
-      const existingAnchorName = trigger.style.getPropertyValue('anchor-name');
-      const triggerAnchorName = existingAnchorName || `--anchor-name-${CSS.escape(id)}`;
+      const defaultAnchorName = `--anchor-name-${CSS.escape(id)}`;
 
+      if (positionAnchor instanceof HTMLElement) {
+        const existingAnchorName = positionAnchor.style.getPropertyValue('anchor-name');
+        const triggerAnchorName = existingAnchorName || defaultAnchorName;
+
+        cleanupFns.push(
+          setStyle(positionAnchor, { property: 'anchor-name', value: triggerAnchorName }),
+          setStyle(popover, { property: 'position-anchor', value: triggerAnchorName }),
+        );
+      } else {
+        // Virtual anchors get a hidden element to anchor to
+        cleanupFns.push(
+          bindAnchorProxy(positionAnchor, defaultAnchorName),
+          setStyle(popover, { property: 'position-anchor', value: defaultAnchorName }),
+        );
+      }
+
+      // Add native anchor positioning classes
+      const nativeOffset = resolveOffset(resolvedOffset, getRequestedPlacement(position));
       cleanupFns.push(
-        setStyle(trigger, { property: 'anchor-name', value: triggerAnchorName }),
-        setStyle(popover, { property: 'position-anchor', value: triggerAnchorName }),
+        setStyle(popover, { property: '--popover-offset', value: `${nativeOffset.mainAxis}px` }),
+        addClassNames(popover, anchorPositionStyles[position]),
       );
 
-      // Add native anchor positioning classes
-      popover.classList.add(...anchorPositionStyles[position].split(' ').filter(Boolean));
+      if (tryPlacements) {
+        cleanupFns.push(
+          setStyle(popover, {
+            property: 'position-try-fallbacks',
+            value: tryPlacements.map(getPositionTryName).join(', ') || 'none',
+          }),
+        );
+      }
+
+      if (nativeOffset.crossAxis !== 0) {
+        cleanupFns.push(
+          setStyle(popover, {
+            property: '--popover-cross-offset',
+            value: `${nativeOffset.crossAxis}px`,
+          }),
+          addClassNames(popover, anchorCrossOffsetStyles[getPositionAxis(position)]),
+        );
+      }
+
+      if (size) {
+        cleanupFns.push(addClassNames(popover, anchorSizeStyles[getPositionAxis(position)]));
+      }
+
+      if (resolvedTryOrder !== 'normal') {
+        cleanupFns.push(addClassNames(popover, anchorTryOrderStyles[resolvedTryOrder]));
+      }
+
+      // The browser doesn't report which fallback it used, so detect it from the rects.
+      // Bound last, so that the first measure sees every native style above.
+      const native = getPlacementFromPosition(position, getComputedStyle(popover));
+      const candidates = [
+        native.placement,
+        ...(tryPlacements ?? native.fallbackPlacements ?? [getFlippedPlacement(native.placement)]),
+      ];
+      cleanupFns.push(
+        bindNativePlacement(popover, positionAnchor, candidates, handlePlacementChange),
+      );
     } else {
       // Use JavaScript fallback for positioning
       const strategy = fallbackStrategy ?? 'update-on-change';
-      cleanupFns.push(bindFallbackPositioning(popover, trigger, position, strategy));
+      cleanupFns.push(
+        bindFallbackPositioning(popover, positionAnchor, position, {
+          strategy,
+          shift: shiftPadding == null ? false : { padding: shiftPadding },
+          size,
+          boundary,
+          offset: resolvedOffset,
+          fallbackPlacements: tryPlacements,
+          onPlacementChange: handlePlacementChange,
+          positionStrategy,
+          positionOutput,
+          tryOrder: resolvedTryOrder,
+          hysteresis,
+        }),
+      );
+
+      if (size) {
+        cleanupFns.push(addClassNames(popover, fallbackSizeStyles));
+      }
     }
 
-    if (autoShow) {
-      // Controlled mode: show the popover immediately.
-      // The `source` option tells the browser which element triggered this popover,
-      // which helps establish the ancestor relationship for nested popovers.
-      // See: https://html.spec.whatwg.org/multipage/popover.html#dom-htmlelement-showpopover
-      popover.showPopover({ source: trigger });
-    } else {
-      // Uncontrolled mode: bind click handler to toggle the popover.
+    const anchorElement = getAnchorElement(positionAnchor);
+    if (
+      anchorHidden === 'hide' &&
+      useNativePositioning &&
+      capabilities.positionVisibility &&
+      positionAnchor instanceof HTMLElement
+    ) {
+      cleanupFns.push(addClassNames(popover, anchorHiddenStyles));
+    } else if (anchorHidden !== 'none' && anchorElement) {
+      let restoreVisibility: TCleanupFn | null = null;
+
       cleanupFns.push(
-        bind(trigger, {
-          type: 'click',
-          listener: () => popover.togglePopover(),
+        bindAnchorVisibility(anchorElement, (isVisible) => {
+          if (anchorHidden === 'close') {
+            if (!isVisible && capabilities.popover && popover.matches(':popover-open')) {
+              popover.hidePopover();
+            }
+            return;
+          }
+
+          if (isVisible) {
+            restoreVisibility?.();
+            restoreVisibility = null;
+          } else if (!restoreVisibility) {
+            restoreVisibility = setStyle(popover, { property: 'visibility', value: 'hidden' });
+          }
         }),
+        () => restoreVisibility?.(),
       );
     }
 
     return combine(...cleanupFns);
-  }, [id, triggerRef, linkToTrigger, position, fallbackStrategy, autoShow]);
+  }, [
+    id,
+    triggerRef,
+    anchor,
+    linkToTrigger,
+    position,
+    fallbackStrategy,
+    shiftPadding,
+    size,
+    boundary,
+    anchorHidden,
+    offsetFn,
+    offsetMainAxis,
+    offsetCrossAxis,
+    fallbackPlacementsKey,
+    positionStrategy,
+    positionOutput,
+    resolvedTryOrder,
+    hysteresis,
+    supportsAnchors,
+    autoShow,
+  ]);
+
+  useLayoutEffect(() => {
+    const popover = ourRef.current;
+    const trigger = triggerRef?.current;
+    if (!popover || !trigger || triggerKey === 'manual') {
+      return;
+    }
+
+    // Without the Popover API the element is always shown and there is nothing to toggle
+    const capabilities = getPlatformCapabilities();
+    if (!capabilities.popover) {
+      return;
+    }
+
+    // Controlled popovers are only mounted while open, so the trigger can only close them
+    return bindPopoverTrigger(trigger, {
+      triggers: triggerKey.split(' ') as TPopoverTrigger[],
+      openDelay,
+      closeDelay,
+      getPopover: () => popover,
+      isOpen: () => popover.matches(':popover-open'),
+      onOpenChange: (isOpen) => {
+        if (!isOpen) {
+          popover.hidePopover();
+        } else if (!autoShow) {
+          popover.showPopover(capabilities.popoverSource ? { source: trigger } : undefined);
+        }
+      },
+    });
+  }, [triggerRef, triggerKey, openDelay, closeDelay, autoShow]);
+
+  // Bound after the popover is shown, and kept apart so that re-positioning doesn't move focus
+  useLayoutEffect(() => {
+    const popover = ourRef.current;
+    invariant(popover);
+
+    return bindPopoverFocus(popover, {
+      trigger: triggerRef?.current ?? null,
+      initialFocus,
+      returnFocus,
+      trapFocus,
+    });
+  }, [triggerRef, initialFocus, returnFocus, trapFocus]);
 
   return (
     <div
@@ -178,3 +670,52 @@ export function Popover({
     </div>
   );
 }
+
+/**
+ * Open state for a controlled popover, driven by interactions with its trigger.
+ * Attach `popoverRef` to the `Popover` so that hovering or focusing it keeps it open.
+ * The hook handles closing too, so the `Popover` keeps its default 'manual' trigger.
+ */
+export function usePopoverTrigger(
+  triggerRef: RefObject<HTMLElement | null>,
+  {
+    trigger = 'hover',
+    openDelay = 0,
+    closeDelay = defaultCloseDelay,
+  }: {
+    trigger?: TPopoverTrigger | TPopoverTrigger[];
+    openDelay?: number;
+    closeDelay?: number;
+  } = {},
+) {
+  const [isOpen, setIsOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement | null>(null);
+  const isOpenRef = useRef(isOpen);
+  useLayoutEffect(() => {
+    isOpenRef.current = isOpen;
+  });
+  const triggerKey = getTriggerKey(trigger);
+
+  useEffect(() => {
+    const element = triggerRef.current;
+    invariant(element);
+
+    return bindPopoverTrigger(element, {
+      triggers: triggerKey.split(' ') as TPopoverTrigger[],
+      openDelay,
+      closeDelay,
+      getPopover: () => popoverRef.current,
+      isOpen: () => isOpenRef.current,
+      onOpenChange: (nextIsOpen) => {
+        isOpenRef.current = nextIsOpen;
+        setIsOpen(nextIsOpen);
+      },
+    });
+  }, [triggerRef, triggerKey, openDelay, closeDelay]);
+
+  return {
+    isOpen,
+    setIsOpen,
+    popoverRef,
+  };
+}
@@ -8,6 +8,7 @@ import {
   type ReactNode,
 } from 'react';
 import { flushSync } from 'react-dom';
+import { getPlatformCapabilities } from '@/utils/get-platform-capabilities';
 
 export type ToastType = 'default' | 'success' | 'error' | 'warning' | 'info';
 export type ToastPosition =
@@ -60,7 +61,7 @@ export function ToastProvider({
     };
 
     // Use view transition if available
-    if (document.startViewTransition) {
+    if (getPlatformCapabilities().viewTransitions) {
       document.startViewTransition(() => {
         flushSync(() => {
           setToasts((prev) => [...prev, newToast]);
@@ -74,7 +75,7 @@ export function ToastProvider({
   }, []);
 
   const dismissToast = useCallback((id: string) => {
-    if (document.startViewTransition) {
+    if (getPlatformCapabilities().viewTransitions) {
       // Determine exit direction based on current position
       const translateX = position.includes('right') ? '120%' : position.includes('left') ? '-120%' : '0';
       const translateY = position.includes('center') ? (position.startsWith('top') ? '-100%' : '100%') : '0';
@@ -128,7 +129,7 @@ export function ToastProvider({
   }, [position]);
 
   const dismissAll = useCallback(() => {
-    if (document.startViewTransition && toasts.length > 0) {
+    if (getPlatformCapabilities().viewTransitions && toasts.length > 0) {
       // Determine exit direction based on current position
       const translateX = position.includes('right') ? '120%' : position.includes('left') ? '-120%' : '0';
       const translateY = position.includes('center') ? (position.startsWith('top') ? '-100%' : '100%') : '0';
@@ -8,6 +8,7 @@ import {
   type Toast,
   type ToastPosition,
 } from './toast-context';
+import { getPlatformCapabilities } from '@/utils/get-platform-capabilities';
 import './toast.css';
 
 const typeIcons = {
@@ -107,7 +108,8 @@ export function Toaster() {
   // Show/hide popover based on toasts
   useEffect(() => {
     const container = containerRef.current;
-    if (!container) return;
+    // Without the Popover API the container is an ordinary fixed element that is always shown
+    if (!container || !getPlatformCapabilities().popover) return;
 
     if (toasts.length > 0) {
       if (!container.matches(':popover-open')) {
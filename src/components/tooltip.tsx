@@ -1,9 +1,18 @@
 'use client';
 
 import { type ReactNode, type RefObject, useState } from 'react';
-import { Popover, type TPosition, type TFallbackStrategy } from './popover';
+import {
+  Popover,
+  type TPosition,
+  type TFallbackStrategy,
+  type TShift,
+  type TBoundary,
+  type TAnchorHidden,
+  type TOffset,
+  type TPlacement,
+} from './popover';
 
-export type { TPosition, TFallbackStrategy };
+export type { TPosition, TFallbackStrategy, TShift, TBoundary, TAnchorHidden, TOffset, TPlacement };
 
 /**
  * A tooltip component built on top of Popover.
@@ -15,6 +24,12 @@ export function Tooltip({
   children,
   isOpen,
   fallbackStrategy,
+  shift,
+  boundary,
+  anchorHidden,
+  offset,
+  fallbackPlacements,
+  hysteresis,
   onOpenChange,
 }: {
   triggerRef: RefObject<HTMLElement | null>;
@@ -23,6 +38,18 @@ export function Tooltip({
   isOpen: boolean;
   /** Force usage of a specific JavaScript fallback strategy */
   fallbackStrategy?: TFallbackStrategy;
+  /** Keep the fallback-positioned popover inside the viewport */
+  shift?: TShift;
+  /** The area the fallback keeps the popover within. Defaults to the viewport. */
+  boundary?: TBoundary;
+  /** What to do when the trigger scrolls out of view */
+  anchorHidden?: TAnchorHidden;
+  /** Distance from the trigger. Defaults to the Popover default. */
+  offset?: TOffset;
+  /** Placements to try, in order, when the popover doesn't fit at `position` */
+  fallbackPlacements?: TPlacement[];
+  /** Margin in pixels before the fallback flips to another side */
+  hysteresis?: number;
   onOpenChange: (isOpen: boolean) => void;
 }) {
   if (!isOpen) {
@@ -36,6 +63,12 @@ export function Tooltip({
       linkToTrigger="description"
       role="tooltip"
       fallbackStrategy={fallbackStrategy}
+      shift={shift}
+      boundary={boundary}
+      anchorHidden={anchorHidden}
+      offset={offset}
+      fallbackPlacements={fallbackPlacements}
+      hysteresis={hysteresis}
       onDismiss={() => onOpenChange(false)}
     >
       {children}
@@ -0,0 +1,506 @@
+import type { TPosition } from '@/components/popover';
+import type { TCleanupFn } from '@/types';
+import { combine } from './combine';
+import { bindFallbackPositioning } from './fallback-positioning';
+import {
+  getFlippedPlacement,
+  isPlacement,
+  type TFallbackStrategy,
+  type TPlacement,
+} from './placement-utils';
+import { supportsAnchorPositioning } from './supports-anchor-positioning';
+
+/**
+ * The anchor positioning properties the polyfill reads
+ */
+const properties = [
+  'anchor-name',
+  'position-anchor',
+  'position-area',
+  'position-try-fallbacks',
+] as const;
+
+type TProperty = (typeof properties)[number];
+
+type TDeclarations = Partial<Record<TProperty, string>>;
+
+type TStyleRule = {
+  selector: string;
+  declarations: TDeclarations;
+};
+
+/**
+ * Everything read from the page's CSS: style rules in source order, and the
+ * `position-area` of each named `@position-try` rule
+ */
+type TParsedStyles = {
+  rules: TStyleRule[];
+  tryRules: Map<string, string>;
+};
+
+/**
+ * The `position-area` values that have an equivalent position.
+ * `center` is dropped before lookup, so `top center` and `top` are the same.
+ */
+const positionAreaPositions: Record<string, TPosition> = {
+  top: 'top',
+  'top span-right': 'top-start',
+  'top span-left': 'top-end',
+  bottom: 'bottom',
+  'bottom span-right': 'bottom-start',
+  'bottom span-left': 'bottom-end',
+  left: 'left',
+  'left span-bottom': 'left-start',
+  'left span-top': 'left-end',
+  right: 'right',
+  'right span-bottom': 'right-start',
+  'right span-top': 'right-end',
+  'block-end': 'block-end',
+  'inline-end': 'inline-end',
+  'block-end span-inline-end': 'block-end-trigger-inline-start',
+};
+
+function getPositionFromArea(value: string): TPosition | null {
+  const keywords = value
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((keyword) => keyword !== 'center')
+    // The side comes before the span, whichever order it was written in
+    .sort((a, b) => Number(a.startsWith('span-')) - Number(b.startsWith('span-')));
+
+  return positionAreaPositions[keywords.join(' ')] ?? null;
+}
+
+function parseDeclarations(text: string): TDeclarations {
+  const declarations: TDeclarations = {};
+
+  for (const declaration of text.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) {
+      continue;
+    }
+
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration
+      .slice(colon + 1)
+      .replace(/!important/i, '')
+      .trim();
+    if ((properties as readonly string[]).includes(property) && value) {
+      declarations[property as TProperty] = value;
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Find the `}` that closes the block opened just before `start`
+ */
+function getBlockEnd(css: string, start: number): number {
+  let depth = 1;
+  for (let index = start; index < css.length; index++) {
+    if (css[index] === '{') {
+      depth++;
+    } else if (css[index] === '}') {
+      depth--;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return css.length;
+}
+
+/**
+ * A small CSS reader: enough to find the anchor positioning declarations in style
+ * rules, including those inside matching `@media` and `@supports` blocks and layers.
+ * Browsers without anchor positioning drop these properties from the CSSOM, so the
+ * raw text has to be read.
+ */
+function parseStyles(css: string, styles: TParsedStyles): void {
+  let index = 0;
+
+  while (index < css.length) {
+    const open = css.indexOf('{', index);
+    if (open === -1) {
+      return;
+    }
+
+    // Skip statements such as `@import url(...);` before the block
+    const prelude = css.slice(index, open).split(';').pop()?.trim() ?? '';
+    const close = getBlockEnd(css, open + 1);
+    const body = css.slice(open + 1, close);
+    index = close + 1;
+
+    if (prelude.startsWith('@position-try')) {
+      const name = prelude.split(/\s+/)[1];
+      const positionArea = parseDeclarations(body)['position-area'];
+      if (name && positionArea) {
+        styles.tryRules.set(name, positionArea);
+      }
+    } else if (prelude.startsWith('@media')) {
+      if (window.matchMedia(prelude.slice('@media'.length).trim()).matches) {
+        parseStyles(body, styles);
+      }
+    } else if (prelude.startsWith('@supports')) {
+      if (CSS.supports(prelude.slice('@supports'.length).trim())) {
+        parseStyles(body, styles);
+      }
+    } else if (prelude.startsWith('@layer') || prelude.startsWith('@container')) {
+      parseStyles(body, styles);
+    } else if (prelude && !prelude.startsWith('@')) {
+      // Nested rules are not supported, only the rule's own declarations are read
+      const declarations = parseDeclarations(body.replace(/\{[^{}]*\}/g, ''));
+      if (Object.keys(declarations).length) {
+        styles.rules.push({ selector: prelude, declarations });
+      }
+    }
+  }
+}
+
+/**
+ * Read the CSS text of every style element and stylesheet link.
+ * Linked stylesheets are fetched once; cross-origin ones that can't be fetched are skipped.
+ */
+function loadStyleSheets(cache: Map<string, Promise<string>>): Promise<string[]> {
+  const sources = document.querySelectorAll<HTMLStyleElement | HTMLLinkElement>(
+    'style, link[rel="stylesheet"]',
+  );
+
+  return Promise.all(
+    Array.from(sources, (source) => {
+      if (source instanceof HTMLStyleElement) {
+        return Promise.resolve(source.textContent ?? '');
+      }
+
+      let text = cache.get(source.href);
+      if (!text) {
+        text = fetch(source.href)
+          .then((response) => (response.ok ? response.text() : ''))
+          .catch(() => '');
+        cache.set(source.href, text);
+      }
+      return text;
+    }),
+  );
+}
+
+/**
+ * Work out the declarations that apply to each element. Rules are applied in source order
+ * without looking at specificity, and inline styles win.
+ */
+function getElementDeclarations(styles: TParsedStyles): Map<Element, TDeclarations> {
+  const elements = new Map<Element, TDeclarations>();
+
+  function apply(element: Element, declarations: TDeclarations) {
+    elements.set(element, { ...elements.get(element), ...declarations });
+  }
+
+  for (const { selector, declarations } of styles.rules) {
+    let matches: NodeListOf<Element>;
+    try {
+      matches = document.querySelectorAll(selector);
+    } catch {
+      // Selectors this browser doesn't understand can't match anything
+      continue;
+    }
+    for (const element of matches) {
+      apply(element, declarations);
+    }
+  }
+
+  const selector = properties.map((property) => `[style*="${property}"]`).join(', ');
+  for (const element of document.querySelectorAll(selector)) {
+    apply(element, parseDeclarations(element.getAttribute('style') ?? ''));
+  }
+
+  return elements;
+}
+
+/**
+ * Resolve `position-try-fallbacks` to placements. Supports `none`, `flip-block` and
+ * `flip-inline` on physical placements, `position-area` values and named `@position-try`
+ * rules that set a `position-area`. Without the property the element never moves, as natively.
+ */
+function getFallbackPlacements(
+  value: string | undefined,
+  position: TPosition,
+  tryRules: Map<string, string>,
+): TPlacement[] | undefined {
+  if (!value || value === 'none') {
+    return [];
+  }
+
+  const placements: TPlacement[] = [];
+  for (const option of value.split(',').map((item) => item.trim())) {
+    if (option === 'flip-block' || option === 'flip-inline') {
+      if (!isPlacement(position)) {
+        // Logical positions already flip along their own axis by default
+        return undefined;
+      }
+      placements.push(getFlippedPlacement(position));
+      continue;
+    }
+
+    const fallback = getPositionFromArea(tryRules.get(option) ?? option);
+    if (fallback && isPlacement(fallback)) {
+      placements.push(fallback);
+    }
+  }
+  return placements;
+}
+
+/**
+ * Find the anchor for a positioned element: the last element with a matching
+ * `anchor-name`, or, without `position-anchor`, the button that invokes the popover.
+ */
+function getAnchor(
+  element: Element,
+  anchorName: string | undefined,
+  elements: Map<Element, TDeclarations>,
+): Element | null {
+  if (!anchorName) {
+    return element.id ? document.querySelector(`[popovertarget="${CSS.escape(element.id)}"]`) : null;
+  }
+
+  let anchor: Element | null = null;
+  for (const [candidate, declarations] of elements) {
+    const names = declarations['anchor-name']?.split(',').map((name) => name.trim()) ?? [];
+    if (
+      names.includes(anchorName) &&
+      candidate !== element &&
+      (!anchor || anchor.compareDocumentPosition(candidate) & Node.DOCUMENT_POSITION_FOLLOWING)
+    ) {
+      anchor = candidate;
+    }
+  }
+  return anchor;
+}
+
+type TBinding = {
+  anchor: Element;
+  position: TPosition;
+  fallbacks: string;
+  cleanup: TCleanupFn;
+};
+
+/**
+ * The inline properties the fallback writes and removes again when it is unbound
+ */
+const positionProperties = ['position', 'top', 'left', 'right', 'bottom', 'translate'];
+
+/**
+ * Keep the inline position styles the page wrote itself, and put them back once the
+ * fallback is unbound
+ */
+function preserveInlinePosition(element: HTMLElement): TCleanupFn {
+  const authored = positionProperties
+    .map((property) => ({ property, value: element.style.getPropertyValue(property) }))
+    .filter(({ value }) => value !== '');
+
+  return function cleanup() {
+    for (const { property, value } of authored) {
+      element.style.setProperty(property, value);
+    }
+  };
+}
+
+function isStyleSource(node: Node | null): boolean {
+  return (
+    node instanceof HTMLStyleElement ||
+    (node instanceof HTMLLinkElement && node.rel === 'stylesheet')
+  );
+}
+
+/**
+ * Whether a mutation can change what the polyfill reads: the page's CSS, an inline
+ * anchor positioning property, or the elements its selectors and anchors match
+ */
+function getMutationEffect(record: MutationRecord): 'styles' | 'elements' | null {
+  const target = record.target;
+  if (isStyleSource(target) || isStyleSource(target.parentNode)) {
+    return 'styles';
+  }
+
+  if (record.type === 'childList') {
+    const nodes = [...record.addedNodes, ...record.removedNodes];
+    if (nodes.some(isStyleSource)) {
+      return 'styles';
+    }
+    return nodes.some((node) => node instanceof Element) ? 'elements' : null;
+  }
+
+  if (record.type !== 'attributes') {
+    return null;
+  }
+  if (record.attributeName === 'style') {
+    // Positioning writes inline styles on every update, which only matter when they
+    // change an anchor positioning property
+    const style = target instanceof Element ? (target.getAttribute('style') ?? '') : '';
+    const previous = parseDeclarations(record.oldValue ?? '');
+    const current = parseDeclarations(style);
+    return properties.some((property) => previous[property] !== current[property])
+      ? 'elements'
+      : null;
+  }
+  if (['href', 'rel', 'media'].includes(record.attributeName ?? '')) {
+    return target instanceof HTMLLinkElement ? 'styles' : null;
+  }
+  return 'elements';
+}
+
+/**
+ * Opt-in polyfill for pages that use CSS Anchor Positioning directly in their CSS.
+ *
+ * In browsers without support it reads `anchor-name`, `position-anchor`, `position-area`
+ * and `position-try-fallbacks` from style elements, stylesheet links and inline styles,
+ * and positions every matching element with the JavaScript fallback.
+ * The CSS is read again only when a style element or stylesheet link changes, and elements
+ * are matched again when the DOM changes. Inline position styles the page wrote itself are
+ * kept once an element is unbound. Does nothing where anchor positioning is supported.
+ */
+export function bindAnchorPositioningPolyfill({
+  strategy = 'update-on-change',
+}: { strategy?: TFallbackStrategy } = {}): TCleanupFn {
+  if (supportsAnchorPositioning()) {
+    return () => {};
+  }
+
+  const bindings = new Map<HTMLElement, TBinding>();
+  const sheetCache = new Map<string, Promise<string>>();
+  // Parsed once, and again only when a style element or stylesheet link changes
+  let parsedStyles: TParsedStyles | null = null;
+  let isActive = true;
+  let isScanning = false;
+  let isScanQueued = false;
+
+  function unbind(element: HTMLElement) {
+    bindings.get(element)?.cleanup();
+    bindings.delete(element);
+  }
+
+  async function scan() {
+    if (isScanning) {
+      isScanQueued = true;
+      return;
+    }
+    isScanning = true;
+
+    let styles = parsedStyles;
+    try {
+      if (!styles) {
+        styles = { rules: [], tryRules: new Map() };
+        for (const css of await loadStyleSheets(sheetCache)) {
+          parseStyles(css.replace(/\/\*[\s\S]*?\*\//g, ''), styles);
+        }
+        parsedStyles = styles;
+      }
+    } finally {
+      isScanning = false;
+    }
+    if (!isActive) {
+      return;
+    }
+
+    const elements = getElementDeclarations(styles);
+    const seen = new Set<HTMLElement>();
+
+    for (const [element, declarations] of elements) {
+      const positionArea = declarations['position-area'];
+      const position = positionArea ? getPositionFromArea(positionArea) : null;
+      const anchor = getAnchor(element, declarations['position-anchor'], elements);
+      if (!(element instanceof HTMLElement) || !position || !anchor) {
+        continue;
+      }
+
+      seen.add(element);
+      const fallbackPlacements = getFallbackPlacements(
+        declarations['position-try-fallbacks'],
+        position,
+        styles.tryRules,
+      );
+      const fallbacks = fallbackPlacements?.join(' ') ?? 'default';
+
+      const existing = bindings.get(element);
+      if (
+        existing?.anchor === anchor &&
+        existing.position === position &&
+        existing.fallbacks === fallbacks
+      ) {
+        continue;
+      }
+
+      unbind(element);
+      const restoreInlinePosition = preserveInlinePosition(element);
+      bindings.set(element, {
+        anchor,
+        position,
+        fallbacks,
+        cleanup: combine(
+          bindFallbackPositioning(element, anchor, position, {
+            strategy,
+            offset: 0,
+            fallbackPlacements,
+            positionStrategy:
+              getComputedStyle(element).position === 'absolute' ? 'absolute' : 'fixed',
+          }),
+          restoreInlinePosition,
+        ),
+      });
+    }
+
+    for (const element of bindings.keys()) {
+      if (!seen.has(element)) {
+        unbind(element);
+      }
+    }
+
+    if (isScanQueued) {
+      isScanQueued = false;
+      requestScan();
+    }
+  }
+
+  // Runs in the background, so errors are reported instead of becoming unhandled rejections
+  function requestScan() {
+    scan().catch((error: unknown) => {
+      console.error('Anchor positioning polyfill failed to scan the page', error);
+    });
+  }
+
+  let frameId: number | null = null;
+  const observer = new MutationObserver((records) => {
+    const effects = records.map(getMutationEffect);
+    if (effects.includes('styles')) {
+      parsedStyles = null;
+    }
+    if (effects.some((effect) => effect != null) && frameId == null) {
+      frameId = requestAnimationFrame(() => {
+        frameId = null;
+        requestScan();
+      });
+    }
+  });
+  observer.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+    attributes: true,
+    attributeOldValue: true,
+    attributeFilter: ['style', 'class', 'id', 'popovertarget', 'href', 'rel', 'media'],
+  });
+
+  requestScan();
+
+  return function cleanup() {
+    isActive = false;
+    observer.disconnect();
+    if (frameId != null) {
+      cancelAnimationFrame(frameId);
+    }
+    for (const element of [...bindings.keys()]) {
+      unbind(element);
+    }
+  };
+}
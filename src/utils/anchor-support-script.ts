@@ -0,0 +1,7 @@
+/**
+ * Sets `data-anchor-support="native"` or `"fallback"` on `<html>`. Rendered as an inline
+ * script in the document head, so CSS can pick a path before hydration (see the
+ * `anchor-native` and `anchor-fallback` variants). The checks match
+ * `getPlatformCapabilities().anchorPositioning`.
+ */
+export const anchorSupportScript = `try{document.documentElement.dataset.anchorSupport=CSS.supports('position-area','top')&&CSS.supports('anchor-name','--a')?'native':'fallback'}catch(e){}`;
@@ -1,122 +1,95 @@
+import { bind } from 'bind-event-listener';
 import type { TCleanupFn } from '@/types';
+import { combine } from './combine';
+import { type TPlacementSettings, measurePlacement } from './fallback-positioning';
 import {
   type TPlacement,
   type TFallbackStrategy,
-  getAvailableSpace,
-  getBasePlacement,
-  getAlignment,
-  buildPlacement,
-  getBestBasePlacement,
+  type TFallbackOptions,
+  type TVirtualAnchor,
+  getAnchorElement,
+  getBoundaryElements,
+  getShiftPadding,
+  applyPosition,
+  clearPosition,
   bindPositionUpdates,
+  runUpdates,
 } from './placement-utils';
 
-export type { TPlacement as TArrowPlacement, TFallbackStrategy };
+export type { TPlacement as TArrowPlacement, TFallbackStrategy, TFallbackOptions };
 
 /**
- * Gap between the trigger and the popover in pixels (matches --tether-size)
+ * Default gap between the trigger and the popover in pixels (matches --tether-size)
  */
-const GAP = 8;
+const DEFAULT_OFFSET = 8;
 
 /**
- * Apply placement using CSS positioning
+ * Default distance between the arrow and the popover corners in pixels
+ * (border radius plus half the arrow width)
  */
-function applyPlacement(
-  popover: HTMLElement,
-  actualPlacement: TPlacement,
-  triggerRect: DOMRect,
-): void {
-  const base = getBasePlacement(actualPlacement);
-  const alignment = getAlignment(actualPlacement);
-
-  // Reset previous positioning
-  popover.style.top = '';
-  popover.style.left = '';
-  popover.style.right = '';
-  popover.style.bottom = '';
-  popover.style.transform = '';
-  popover.style.position = 'fixed';
-
-  // Apply based on base placement
-  if (base === 'top') {
-    popover.style.top = `${triggerRect.top - GAP}px`;
-    if (alignment === 'start') {
-      popover.style.left = `${triggerRect.left}px`;
-      popover.style.transform = 'translateY(-100%)';
-    } else if (alignment === 'end') {
-      popover.style.left = `${triggerRect.right}px`;
-      popover.style.transform = 'translate(-100%, -100%)';
-    } else {
-      popover.style.left = `${triggerRect.left + triggerRect.width / 2}px`;
-      popover.style.transform = 'translate(-50%, -100%)';
-    }
-  } else if (base === 'bottom') {
-    popover.style.top = `${triggerRect.bottom + GAP}px`;
-    if (alignment === 'start') {
-      popover.style.left = `${triggerRect.left}px`;
-    } else if (alignment === 'end') {
-      popover.style.left = `${triggerRect.right}px`;
-      popover.style.transform = 'translateX(-100%)';
-    } else {
-      popover.style.left = `${triggerRect.left + triggerRect.width / 2}px`;
-      popover.style.transform = 'translateX(-50%)';
-    }
-  } else if (base === 'left') {
-    popover.style.left = `${triggerRect.left - GAP}px`;
-    if (alignment === 'start') {
-      popover.style.top = `${triggerRect.top}px`;
-      popover.style.transform = 'translateX(-100%)';
-    } else if (alignment === 'end') {
-      popover.style.top = `${triggerRect.bottom}px`;
-      popover.style.transform = 'translate(-100%, -100%)';
-    } else {
-      popover.style.top = `${triggerRect.top + triggerRect.height / 2}px`;
-      popover.style.transform = 'translate(-100%, -50%)';
-    }
-  } else {
-    // right
-    popover.style.left = `${triggerRect.right + GAP}px`;
-    if (alignment === 'start') {
-      popover.style.top = `${triggerRect.top}px`;
-    } else if (alignment === 'end') {
-      popover.style.top = `${triggerRect.bottom}px`;
-      popover.style.transform = 'translateY(-100%)';
-    } else {
-      popover.style.top = `${triggerRect.top + triggerRect.height / 2}px`;
-      popover.style.transform = 'translateY(-50%)';
-    }
-  }
-}
-
-function calculateAndApplyPlacement(
-  popover: HTMLElement,
-  trigger: HTMLElement,
-  desiredPlacement: TPlacement,
-): void {
-  const triggerRect = trigger.getBoundingClientRect();
-  const popoverRect = popover.getBoundingClientRect();
-  const available = getAvailableSpace(triggerRect);
-
-  const desiredBase = getBasePlacement(desiredPlacement);
-  const alignment = getAlignment(desiredPlacement);
-
-  const actualBase = getBestBasePlacement(desiredBase, available, popoverRect, GAP);
-  const actualPlacement = buildPlacement(actualBase, alignment);
-
-  applyPlacement(popover, actualPlacement, triggerRect);
-}
+const DEFAULT_ARROW_PADDING = 16;
 
 /**
  * Provides JavaScript-based positioning as a fallback
  * for browsers that don't support CSS Anchor Positioning.
+ * The resolved placement and arrow position are exposed so the arrow can be drawn
+ * (see `applyPosition`).
  */
 export function bindArrowFallbackPositioning(
   popover: HTMLElement,
-  trigger: HTMLElement,
+  anchor: TVirtualAnchor,
   placement: TPlacement,
-  strategy: TFallbackStrategy = 'update-on-change',
+  {
+    strategy = 'update-on-change',
+    shift,
+    boundary,
+    offset = DEFAULT_OFFSET,
+    arrowPadding = DEFAULT_ARROW_PADDING,
+    fallbackPlacements,
+    onPlacementChange,
+    positionStrategy = 'fixed',
+    positionOutput = 'inset',
+    tryOrder = 'normal',
+    hysteresis = 0,
+  }: TFallbackOptions = {},
 ): TCleanupFn {
-  return bindPositionUpdates(
-    () => calculateAndApplyPlacement(popover, trigger, placement),
-    strategy,
+  const anchorElement = getAnchorElement(anchor);
+  const settings: TPlacementSettings = {
+    offset,
+    shiftPadding: getShiftPadding(shift),
+    arrowPadding,
+    size: false,
+    boundaryElements: getBoundaryElements(anchorElement, boundary),
+    fallbackPlacements,
+    positionStrategy,
+    tryOrder,
+    hysteresis,
+  };
+
+  let currentPlacement: TPlacement | null = null;
+  function update() {
+    const { result, containingBlock } = measurePlacement(
+      popover,
+      anchor,
+      placement,
+      settings,
+      currentPlacement,
+    );
+
+    return () => {
+      applyPosition(popover, result, positionStrategy, containingBlock, positionOutput);
+
+      if (result.placement !== currentPlacement) {
+        currentPlacement = result.placement;
+        onPlacementChange?.(result.placement);
+      }
+    };
+  }
+
+  return combine(
+    bindPositionUpdates(update, strategy, { trigger: anchorElement, popover }),
+    // Opening moves the popover into the top layer and gives it a size, so measure again
+    bind(popover, { type: 'toggle', listener: () => runUpdates([update]) }),
+    () => clearPosition(popover, positionOutput),
   );
 }
@@ -0,0 +1,43 @@
+import type { TCleanupFn } from '@/types';
+import { combine } from './combine';
+import {
+  bindPositionUpdates,
+  getAnchorElement,
+  type TFallbackStrategy,
+  type TVirtualAnchor,
+} from './placement-utils';
+
+/**
+ * Native anchor positioning can only anchor to an element. For a virtual anchor,
+ * this keeps an invisible fixed element over the anchor's rect and gives it the
+ * anchor name, so the popover can use `position-anchor` as usual.
+ */
+export function bindAnchorProxy(
+  anchor: TVirtualAnchor,
+  anchorName: string,
+  strategy: TFallbackStrategy = 'update-on-change',
+): TCleanupFn {
+  const proxy = document.createElement('div');
+  proxy.setAttribute('aria-hidden', 'true');
+  proxy.style.setProperty('position', 'fixed');
+  proxy.style.setProperty('visibility', 'hidden');
+  proxy.style.setProperty('pointer-events', 'none');
+  proxy.style.setProperty('anchor-name', anchorName);
+  document.body.append(proxy);
+
+  function update() {
+    const rect = anchor.getBoundingClientRect();
+
+    return () => {
+      proxy.style.setProperty('top', `${rect.top}px`);
+      proxy.style.setProperty('left', `${rect.left}px`);
+      proxy.style.setProperty('width', `${rect.width}px`);
+      proxy.style.setProperty('height', `${rect.height}px`);
+    };
+  }
+
+  return combine(
+    bindPositionUpdates(update, strategy, { trigger: getAnchorElement(anchor), popover: proxy }),
+    () => proxy.remove(),
+  );
+}
@@ -0,0 +1,26 @@
+import type { TCleanupFn } from '@/types';
+
+/**
+ * Calls `onChange` when the anchor scrolls out of view and when it comes back.
+ * Clipping by scroll containers is taken into account, so an anchor hidden
+ * inside an `overflow: auto` pane counts as not visible.
+ */
+export function bindAnchorVisibility(
+  anchor: Element,
+  onChange: (isVisible: boolean) => void,
+): TCleanupFn {
+  let isVisible = true;
+
+  const observer = new IntersectionObserver(([entry]) => {
+    if (entry.isIntersecting === isVisible) {
+      return;
+    }
+    isVisible = entry.isIntersecting;
+    onChange(isVisible);
+  });
+  observer.observe(anchor);
+
+  return function cleanup() {
+    observer.disconnect();
+  };
+}
@@ -0,0 +1,36 @@
+import { bind } from 'bind-event-listener';
+import type { TCleanupFn } from '@/types';
+import { getTabbableElements } from './get-tabbable-elements';
+
+/**
+ * Keep Tab and Shift+Tab cycling through the tabbable elements inside a container,
+ * wrapping from the last to the first and back
+ */
+export function bindFocusTrap(container: HTMLElement): TCleanupFn {
+  return bind(container, {
+    type: 'keydown',
+    listener: (event) => {
+      if (event.key !== 'Tab') {
+        return;
+      }
+
+      const tabbable = getTabbableElements(container);
+      const first = tabbable[0];
+      const last = tabbable[tabbable.length - 1];
+      if (!first) {
+        // Nothing to move to, so focus stays on the container
+        event.preventDefault();
+        return;
+      }
+
+      const active = document.activeElement;
+      if (event.shiftKey && (active === first || active === container)) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && active === last) {
+        event.preventDefault();
+        first.focus();
+      }
+    },
+  });
+}
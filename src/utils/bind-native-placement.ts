@@ -0,0 +1,56 @@
+import { bind } from 'bind-event-listener';
+import type { TCleanupFn } from '@/types';
+import { combine } from './combine';
+import { getPlatformCapabilities } from './get-platform-capabilities';
+import {
+  bindPositionUpdates,
+  getAnchorElement,
+  getPlacementFromRects,
+  runUpdates,
+  type TPlacement,
+  type TVirtualAnchor,
+} from './placement-utils';
+
+/**
+ * With native anchor positioning the browser picks the `position-try` fallback and
+ * doesn't say which one. This compares the popover and anchor rects after each change
+ * to find the applied placement, then exposes it the same way as the JavaScript
+ * fallback: a `data-placement` attribute and `onPlacementChange`.
+ * `candidates` are the requested placement followed by its try fallbacks.
+ */
+export function bindNativePlacement(
+  popover: HTMLElement,
+  anchor: TVirtualAnchor,
+  candidates: TPlacement[],
+  onPlacementChange: (placement: TPlacement) => void,
+): TCleanupFn {
+  let currentPlacement: TPlacement | null = null;
+
+  function update() {
+    if (!getPlatformCapabilities().popover || !popover.matches(':popover-open')) {
+      return;
+    }
+
+    const placement = getPlacementFromRects(
+      anchor.getBoundingClientRect(),
+      popover.getBoundingClientRect(),
+      candidates,
+    );
+    if (placement === currentPlacement) {
+      return;
+    }
+
+    return () => {
+      currentPlacement = placement;
+      popover.setAttribute('data-placement', placement);
+      onPlacementChange(placement);
+    };
+  }
+
+  return combine(
+    bindPositionUpdates(update, 'auto', { trigger: getAnchorElement(anchor), popover }),
+    // Nothing is measured while the popover is closed, so check again once it opens
+    bind(popover, { type: 'toggle', listener: () => runUpdates([update]) }),
+    () => popover.removeAttribute('data-placement'),
+  );
+}
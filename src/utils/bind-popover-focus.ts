@@ -0,0 +1,112 @@
+import { bind } from 'bind-event-listener';
+import type { RefObject } from 'react';
+import type { TCleanupFn } from '@/types';
+import { bindFocusTrap } from './bind-focus-trap';
+import { combine } from './combine';
+import { getPlatformCapabilities } from './get-platform-capabilities';
+import { getTabbableElements } from './get-tabbable-elements';
+import { setAttribute } from './set-attribute';
+
+/**
+ * Where focus goes when the popover opens:
+ * - 'first-tabbable': the first tabbable element inside, or the popover itself when there is none
+ * - 'container': the popover itself
+ * - 'none': focus stays where it is
+ * - a ref: that element
+ */
+export type TInitialFocus = 'first-tabbable' | 'container' | 'none' | RefObject<HTMLElement | null>;
+
+/**
+ * Where focus goes when the popover closes: `true` for the trigger, or the element that had
+ * focus when it opened if there is no trigger; a ref for that element; `false` to leave it.
+ */
+export type TReturnFocus = boolean | RefObject<HTMLElement | null>;
+
+export type TPopoverFocusOptions = {
+  trigger: HTMLElement | null;
+  initialFocus: TInitialFocus;
+  returnFocus: TReturnFocus;
+  trapFocus: boolean;
+};
+
+function getInitialFocusElement(popover: HTMLElement, initialFocus: TInitialFocus) {
+  if (initialFocus === 'none') {
+    return null;
+  }
+  if (typeof initialFocus === 'object') {
+    return initialFocus.current;
+  }
+  return (initialFocus === 'first-tabbable' && getTabbableElements(popover)[0]) || popover;
+}
+
+/**
+ * Move focus into the popover when it opens and back out when it closes or unmounts.
+ * Focus is only returned when it is inside the popover or was lost with it, so closing by
+ * clicking another control leaves focus on that control.
+ */
+export function bindPopoverFocus(
+  popover: HTMLElement,
+  { trigger, initialFocus, returnFocus, trapFocus }: TPopoverFocusOptions,
+): TCleanupFn {
+  let previouslyFocused: Element | null = null;
+  let isOpen = false;
+
+  function handleOpen() {
+    if (isOpen) {
+      return;
+    }
+    isOpen = true;
+    previouslyFocused = document.activeElement;
+    getInitialFocusElement(popover, initialFocus)?.focus({ preventScroll: true });
+  }
+
+  function handleClose() {
+    if (!isOpen) {
+      return;
+    }
+    isOpen = false;
+
+    const active = document.activeElement;
+    if (returnFocus === false || (active && active !== document.body && !popover.contains(active))) {
+      return;
+    }
+    const target =
+      typeof returnFocus === 'object'
+        ? returnFocus.current
+        : (trigger ?? (previouslyFocused instanceof HTMLElement ? previouslyFocused : null));
+    target?.focus({ preventScroll: true });
+  }
+
+  const cleanupFns: TCleanupFn[] = [
+    bind(popover, {
+      type: 'toggle',
+      listener: (event) => {
+        if ((event as ToggleEvent).newState === 'open') {
+          handleOpen();
+        } else {
+          handleClose();
+        }
+      },
+    }),
+  ];
+
+  // Only elements with a tabindex can be focused as a container
+  const needsTabIndex = initialFocus === 'container' || initialFocus === 'first-tabbable';
+  if (needsTabIndex && !popover.hasAttribute('tabindex')) {
+    cleanupFns.push(setAttribute(popover, { attribute: 'tabindex', value: '-1' }));
+  }
+
+  if (trapFocus) {
+    cleanupFns.push(bindFocusTrap(popover));
+  }
+
+  // Already open when bound, e.g. shown on mount before this ran
+  if (getPlatformCapabilities().popover && popover.matches(':popover-open')) {
+    handleOpen();
+  }
+
+  // Unmounting an open popover doesn't fire `toggle`, so return focus here too
+  cleanupFns.push(handleClose);
+
+  return combine(...cleanupFns);
+}
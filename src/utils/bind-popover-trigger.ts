@@ -0,0 +1,232 @@
+import { bind, bindAll } from 'bind-event-listener';
+import type { TCleanupFn } from '@/types';
+import { combine } from './combine';
+import { isPlacement, type TCoords } from './placement-utils';
+import { getSafePolygon, isPointInPolygon } from './safe-polygon';
+
+/**
+ * What opens and closes a popover:
+ * - 'click': clicking the trigger toggles it. With 'hover' too, clicking a popover the
+ *   pointer opened pins it open instead, and it stays open until the next click.
+ * - 'hover': resting the pointer on the trigger opens it, and leaving the trigger
+ *   and the popover closes it
+ * - 'focus': keyboard focus on the trigger opens it, and focus leaving the trigger
+ *   and the popover closes it
+ * - 'manual': nothing, the popover is opened and closed by its owner
+ */
+export type TPopoverTrigger = 'click' | 'hover' | 'focus' | 'manual';
+
+export type TPopoverTriggerOptions = {
+  /** What opens and closes the popover. Several can be combined. */
+  triggers: TPopoverTrigger[];
+  /** Milliseconds the pointer has to rest on the trigger before opening. Defaults to 0. */
+  openDelay?: number;
+  /**
+   * Milliseconds before closing once the pointer or focus has left. Coming back within
+   * this time keeps the popover open, so the pointer can cross the gap to the popover.
+   * Defaults to 0.
+   */
+  closeDelay?: number;
+  /** The popover element, read on every event so that it can mount later */
+  getPopover: () => HTMLElement | null;
+  isOpen: () => boolean;
+  onOpenChange: (isOpen: boolean) => void;
+};
+
+/**
+ * The corridor of the hover-opened popover the pointer is travelling to, shared so that
+ * the triggers it crosses on the way, such as sibling menu items, don't open theirs
+ */
+let activeCorridor: { trigger: HTMLElement; polygon: TCoords[]; isOpen: () => boolean } | null =
+  null;
+
+function isInOtherCorridor(trigger: HTMLElement, point: TCoords): boolean {
+  return (
+    activeCorridor != null &&
+    activeCorridor.trigger !== trigger &&
+    activeCorridor.isOpen() &&
+    isPointInPolygon(point, activeCorridor.polygon)
+  );
+}
+
+/**
+ * Open and close a popover from interactions with its trigger.
+ * Hover and focus count the popover as part of the trigger, so moving into the popover
+ * or tabbing into it keeps it open. While the pointer travels from the trigger towards the
+ * open popover, crossing other elements on the way doesn't close it (see `getSafePolygon`).
+ * Touch input doesn't hover; it clicks.
+ */
+export function bindPopoverTrigger(
+  trigger: HTMLElement,
+  { triggers, openDelay = 0, closeDelay = 0, getPopover, isOpen, onOpenChange }: TPopoverTriggerOptions,
+): TCleanupFn {
+  let timeoutId: number | null = null;
+  let isHovered = false;
+  let isFocused = false;
+  // Opened by a click, so leaving with the pointer or focus doesn't close it
+  let isPinned = false;
+
+  function isWithin(target: EventTarget | null): boolean {
+    return (
+      target instanceof Node && (trigger.contains(target) || !!getPopover()?.contains(target))
+    );
+  }
+
+  function cancelPending() {
+    if (timeoutId != null) {
+      window.clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  }
+
+  function setOpen(nextIsOpen: boolean, delay: number) {
+    cancelPending();
+    if (nextIsOpen === isOpen() || (!nextIsOpen && isPinned)) {
+      return;
+    }
+    // Opening by hover or focus after a dismissal starts unpinned
+    isPinned = false;
+    if (delay <= 0) {
+      onOpenChange(nextIsOpen);
+      return;
+    }
+    timeoutId = window.setTimeout(() => {
+      timeoutId = null;
+      if (nextIsOpen !== isOpen()) {
+        onOpenChange(nextIsOpen);
+      }
+    }, delay);
+  }
+
+  function closeWhenLeft() {
+    if (!isHovered && !isFocused) {
+      setOpen(false, closeDelay);
+    }
+  }
+
+  const cleanupFns: TCleanupFn[] = [cancelPending];
+
+  if (triggers.includes('click')) {
+    cleanupFns.push(
+      bind(trigger, {
+        type: 'click',
+        listener: () => {
+          if (isOpen() && (isPinned || !isHovered)) {
+            isPinned = false;
+            setOpen(false, 0);
+            return;
+          }
+          // Either not open yet, or held open by the pointer: pin it rather than toggle it closed
+          setOpen(true, 0);
+          isPinned = true;
+        },
+      }),
+    );
+  }
+
+  if (triggers.includes('hover')) {
+    // The corridor to the open popover while the pointer travels from the trigger towards it
+    let corridor: TCoords[] | null = null;
+
+    function endCorridor() {
+      corridor = null;
+      if (activeCorridor?.trigger === trigger) {
+        activeCorridor = null;
+      }
+    }
+
+    function startCorridor(point: TCoords, popover: HTMLElement) {
+      const placement = popover.getAttribute('data-placement');
+      corridor = getSafePolygon(
+        point,
+        popover.getBoundingClientRect(),
+        placement && isPlacement(placement) ? placement : null,
+      );
+      activeCorridor = { trigger, polygon: corridor, isOpen };
+    }
+
+    cleanupFns.push(
+      endCorridor,
+      bindAll(document, [
+        {
+          // Follows the pointer between the trigger, the gap and the popover
+          type: 'pointermove',
+          listener: (event) => {
+            if (event.pointerType === 'touch') {
+              return;
+            }
+            const point = { x: event.clientX, y: event.clientY };
+            const wasHovered = isHovered;
+            isHovered = isWithin(event.target);
+
+            if (isHovered) {
+              endCorridor();
+              // Back over the trigger or the popover: a pending close no longer applies.
+              // Only the trigger opens the popover; the popover itself just keeps it open.
+              // A sibling's submenu the pointer is travelling to keeps this one from opening.
+              if (isOpen()) {
+                cancelPending();
+              } else if (
+                trigger.contains(event.target as Node) &&
+                timeoutId == null &&
+                !isInOtherCorridor(trigger, point)
+              ) {
+                setOpen(true, openDelay);
+              }
+              return;
+            }
+
+            const popover = getPopover();
+            if (wasHovered && popover && isOpen()) {
+              startCorridor(point, popover);
+              setOpen(false, closeDelay);
+            } else if (corridor && isOpen() && isPointInPolygon(point, corridor)) {
+              // Still heading for the popover: it closes once the pointer rests or turns away
+              setOpen(false, closeDelay);
+            } else if (corridor || wasHovered) {
+              endCorridor();
+              closeWhenLeft();
+            }
+          },
+        },
+        {
+          type: 'pointerout',
+          listener: (event) => {
+            // Leaving the window doesn't move the pointer onto another element
+            if (event.pointerType !== 'touch' && event.relatedTarget == null && isHovered) {
+              isHovered = false;
+              endCorridor();
+              closeWhenLeft();
+            }
+          },
+        },
+      ]),
+    );
+  }
+
+  if (triggers.includes('focus')) {
+    cleanupFns.push(
+      bind(trigger, {
+        type: 'focus',
+        listener: () => {
+          // A click also focuses the trigger, which shouldn't count as opening it by focus
+          isFocused = trigger.matches(':focus-visible');
+          if (isFocused) {
+            setOpen(true, 0);
+          }
+        },
+      }),
+      bind(document, {
+        type: 'focusout',
+        listener: (event) => {
+          if (isFocused && !isWithin((event as FocusEvent).relatedTarget)) {
+            isFocused = false;
+            closeWhenLeft();
+          }
+        },
+      }),
+    );
+  }
+
+  return combine(...cleanupFns);
+}
@@ -0,0 +1,27 @@
+import type { TVirtualAnchor } from './placement-utils';
+
+/**
+ * Create a virtual anchor for a point in the viewport, such as the pointer position
+ * of a context menu. With a `contextElement` the point sticks to that element
+ * when it scrolls or moves.
+ */
+export function createPointAnchor(
+  { x, y }: { x: number; y: number },
+  contextElement?: Element,
+): TVirtualAnchor {
+  if (!contextElement) {
+    return { getBoundingClientRect: () => new DOMRect(x, y, 0, 0) };
+  }
+
+  const initial = contextElement.getBoundingClientRect();
+  const offsetX = x - initial.left;
+  const offsetY = y - initial.top;
+
+  return {
+    contextElement,
+    getBoundingClientRect() {
+      const rect = contextElement.getBoundingClientRect();
+      return new DOMRect(rect.left + offsetX, rect.top + offsetY, 0, 0);
+    },
+  };
+}
@@ -1,124 +1,245 @@
+import { bind } from 'bind-event-listener';
 import type { TCleanupFn } from '@/types';
 import type { TPosition } from '@/components/popover';
+import { combine } from './combine';
 import {
   type TBasePlacement,
-  type TAvailableSpace,
+  type TPlacement,
+  type TComputePositionResult,
+  type TContainingBlock,
+  type TPositionStrategy,
+  type TPositionUpdate,
+  type TTryOrder,
   type TFallbackStrategy,
-  getAvailableSpace,
+  type TFallbackOptions,
+  type TOffset,
+  type TVirtualAnchor,
+  getAnchorElement,
+  getBoundaryElements,
+  getBoundaryRect,
+  buildPlacement,
+  isPlacement,
+  getShiftPadding,
+  getContainingBlock,
+  getElementSize,
+  getPhysicalTryOrder,
+  computePosition,
+  applyPosition,
+  clearPosition,
+  applyAvailableSize,
+  clearAvailableSize,
   bindPositionUpdates,
+  runUpdates,
 } from './placement-utils';
 
-export type { TFallbackStrategy };
+export type { TFallbackStrategy, TFallbackOptions };
 
 /**
- * Gap between the trigger and the popover in pixels
+ * Default gap between the trigger and the popover in pixels
  */
-const GAP = 4;
+const DEFAULT_OFFSET = 4;
 
-function getBestInlinePlacement(available: TAvailableSpace): TBasePlacement {
-  return available.right >= available.left ? 'right' : 'left';
-}
+/**
+ * The writing mode properties that logical positions are resolved against
+ */
+type TWritingMode = {
+  direction: string;
+  writingMode: string;
+};
 
-function getBestBlockPlacement(available: TAvailableSpace): TBasePlacement {
-  return available.bottom >= available.top ? 'bottom' : 'top';
-}
+/**
+ * The physical sides at the start and end of the block and inline axes
+ */
+type TLogicalSides = {
+  blockStart: TBasePlacement;
+  blockEnd: TBasePlacement;
+  inlineStart: TBasePlacement;
+  inlineEnd: TBasePlacement;
+};
 
-function getPlacementFromPosition(
-  position: TPosition,
-  available: TAvailableSpace,
-): TBasePlacement {
-  if (position === 'inline-end') {
-    return getBestInlinePlacement(available);
+function getLogicalSides({ direction, writingMode }: TWritingMode): TLogicalSides {
+  const isVertical = writingMode !== 'horizontal-tb';
+  const [blockStart, blockEnd]: TBasePlacement[] = !isVertical
+    ? ['top', 'bottom']
+    : writingMode === 'vertical-rl' || writingMode === 'sideways-rl'
+      ? ['right', 'left']
+      : ['left', 'right'];
+
+  let [inlineStart, inlineEnd]: TBasePlacement[] = !isVertical
+    ? ['left', 'right']
+    : writingMode === 'sideways-lr'
+      ? ['bottom', 'top']
+      : ['top', 'bottom'];
+
+  if (direction === 'rtl') {
+    [inlineStart, inlineEnd] = [inlineEnd, inlineStart];
   }
 
-  // 'block-end' and 'block-end-trigger-inline-start'
-  return getBestBlockPlacement(available);
+  return { blockStart, blockEnd, inlineStart, inlineEnd };
 }
 
 /**
- * Apply placement using CSS transforms so we don't need to measure the popover.
- * The transform handles offsetting by the popover's own dimensions.
+ * Resolve a position to a placement and the placements to try when it doesn't fit.
+ * Logical positions use the same try order as their native `position-try-fallbacks`,
+ * so both paths end up on the same side.
  */
-function applyPlacementStyles(
-  popover: HTMLElement,
-  placement: TBasePlacement,
+export function getPlacementFromPosition(
   position: TPosition,
-  triggerRect: DOMRect,
-): void {
-  if (placement === 'top') {
-    // Position at trigger's top edge, transform moves it up by its own height
-    popover.style.top = `${triggerRect.top - GAP}px`;
-    if (position === 'block-end-trigger-inline-start') {
-      popover.style.left = `${triggerRect.left}px`;
-      popover.style.transform = 'translateY(-100%)';
-    } else {
-      // Center horizontally: position at trigger center, transform centers it
-      popover.style.left = `${triggerRect.left + triggerRect.width / 2}px`;
-      popover.style.transform = 'translate(-50%, -100%)';
-    }
-    return;
+  writingMode: TWritingMode,
+): { placement: TPlacement; fallbackPlacements?: TPlacement[] } {
+  if (isPlacement(position)) {
+    return { placement: position };
   }
 
-  if (placement === 'bottom') {
-    popover.style.top = `${triggerRect.bottom + GAP}px`;
-    if (position === 'block-end-trigger-inline-start') {
-      popover.style.left = `${triggerRect.left}px`;
-    } else {
-      // Center horizontally
-      popover.style.left = `${triggerRect.left + triggerRect.width / 2}px`;
-      popover.style.transform = 'translateX(-50%)';
-    }
-    return;
+  const { blockStart, blockEnd, inlineStart, inlineEnd } = getLogicalSides(writingMode);
+
+  if (position === 'inline-end') {
+    return { placement: inlineEnd, fallbackPlacements: [inlineStart] };
   }
 
-  if (placement === 'left') {
-    // Position at trigger's left edge, transform moves it left by its own width
-    popover.style.left = `${triggerRect.left - GAP}px`;
-    // Center vertically: position at trigger center, transform centers it
-    popover.style.top = `${triggerRect.top + triggerRect.height / 2}px`;
-    popover.style.transform = 'translate(-100%, -50%)';
-    return;
+  if (position === 'block-end-trigger-inline-start') {
+    // Lines up with the inline-start edge of the trigger and never flips
+    const alignment = inlineStart === 'left' || inlineStart === 'top' ? 'start' : 'end';
+    return { placement: buildPlacement(blockEnd, alignment), fallbackPlacements: [] };
   }
 
-  // placement === 'right'
-  popover.style.left = `${triggerRect.right + GAP}px`;
-  // Center vertically
-  popover.style.top = `${triggerRect.top + triggerRect.height / 2}px`;
-  popover.style.transform = 'translateY(-50%)';
+  // 'block-end'
+  return { placement: blockEnd, fallbackPlacements: [blockStart] };
 }
 
-function applyPlacement(
+/**
+ * Fallback options resolved once when positioning is bound
+ */
+export type TPlacementSettings = {
+  offset: TOffset;
+  shiftPadding: number | null;
+  arrowPadding: number;
+  size: boolean;
+  boundaryElements: Element[];
+  fallbackPlacements: TPlacement[] | undefined;
+  positionStrategy: TPositionStrategy;
+  tryOrder: TTryOrder;
+  hysteresis: number;
+};
+
+/**
+ * The read phase of an update. Nothing is written.
+ */
+export function measurePlacement(
   popover: HTMLElement,
-  trigger: HTMLElement,
+  anchor: TVirtualAnchor,
   position: TPosition,
-): void {
-  const triggerRect = trigger.getBoundingClientRect();
-  const available = getAvailableSpace(triggerRect);
-  const placement = getPlacementFromPosition(position, available);
+  {
+    offset,
+    shiftPadding,
+    arrowPadding,
+    size,
+    boundaryElements,
+    fallbackPlacements,
+    positionStrategy,
+    tryOrder,
+    hysteresis,
+  }: TPlacementSettings,
+  currentPlacement: TPlacement | null,
+): { result: TComputePositionResult; containingBlock: TContainingBlock } {
+  const style = getComputedStyle(popover);
+  const resolved = getPlacementFromPosition(position, style);
+  const containingBlock = getContainingBlock(popover, positionStrategy);
+  const { width, height } = getElementSize(popover);
 
-  // Reset any previous positioning
-  popover.style.top = '';
-  popover.style.left = '';
-  popover.style.transform = '';
+  const result = computePosition({
+    anchorRect: anchor.getBoundingClientRect(),
+    floatingSize: { width: width * containingBlock.scaleX, height: height * containingBlock.scaleY },
+    boundary: getBoundaryRect(boundaryElements),
+    placement: resolved.placement,
+    offset,
+    fallbackPlacements: fallbackPlacements ?? resolved.fallbackPlacements,
+    tryOrder: getPhysicalTryOrder(tryOrder, style.writingMode),
+    limitSize: size,
+    currentPlacement,
+    hysteresis,
+    shiftPadding,
+    arrowPadding,
+  });
 
-  // Apply fixed positioning relative to viewport
-  popover.style.position = 'fixed';
-
-  applyPlacementStyles(popover, placement, position, triggerRect);
+  return { result, containingBlock };
 }
 
 /**
  * Provides JavaScript-based positioning as a fallback for browsers
  * that don't support CSS Anchor Positioning.
+ * The anchor can be the trigger element or a virtual anchor.
  */
 export function bindFallbackPositioning(
   popover: HTMLElement,
-  trigger: HTMLElement,
+  anchor: TVirtualAnchor,
   position: TPosition,
-  strategy: TFallbackStrategy = 'update-on-change',
+  {
+    strategy = 'update-on-change',
+    shift,
+    size = false,
+    boundary,
+    offset = DEFAULT_OFFSET,
+    arrowPadding = 0,
+    fallbackPlacements,
+    onPlacementChange,
+    positionStrategy = 'fixed',
+    positionOutput = 'inset',
+    tryOrder = 'normal',
+    hysteresis = 0,
+  }: TFallbackOptions = {},
 ): TCleanupFn {
-  return bindPositionUpdates(
-    () => applyPlacement(popover, trigger, position),
-    strategy,
-  );
+  const anchorElement = getAnchorElement(anchor);
+  const settings: TPlacementSettings = {
+    offset,
+    shiftPadding: getShiftPadding(shift),
+    arrowPadding,
+    size,
+    boundaryElements: getBoundaryElements(anchorElement, boundary),
+    fallbackPlacements,
+    positionStrategy,
+    tryOrder,
+    hysteresis,
+  };
+
+  let currentPlacement: TPlacement | null = null;
+  const update: TPositionUpdate = () => {
+    const { result, containingBlock } = measurePlacement(
+      popover,
+      anchor,
+      position,
+      settings,
+      currentPlacement,
+    );
+
+    return () => {
+      applyPosition(popover, result, positionStrategy, containingBlock, positionOutput);
+
+      if (size) {
+        applyAvailableSize(popover, result.availableSize);
+      }
+
+      if (result.placement !== currentPlacement) {
+        currentPlacement = result.placement;
+        onPlacementChange?.(result.placement);
+      }
+    };
+  };
+  if (size) {
+    // A previously applied size limit would make the current side always look like it fits
+    update.prepare = () => clearAvailableSize(popover);
+  }
+
+  const cleanupFns: TCleanupFn[] = [
+    bindPositionUpdates(update, strategy, { trigger: anchorElement, popover }),
+    // Opening moves the popover into the top layer and gives it a size, so measure again
+    bind(popover, { type: 'toggle', listener: () => runUpdates([update]) }),
+    () => clearPosition(popover, positionOutput),
+  ];
+
+  if (size) {
+    cleanupFns.push(() => clearAvailableSize(popover));
+  }
+
+  return combine(...cleanupFns);
 }
@@ -0,0 +1,80 @@
+/**
+ * The platform features the components can use natively. Browsers ship them at
+ * different times, so each one is detected on its own.
+ */
+export type TPlatformCapabilities = {
+  /** `anchor-name`, `position-anchor` and `position-area` */
+  anchorPositioning: boolean;
+  /** `position-try-fallbacks` and `@position-try` */
+  positionTryFallbacks: boolean;
+  /** `position-try-order` */
+  positionTryOrder: boolean;
+  /** `position-visibility: anchors-visible` */
+  positionVisibility: boolean;
+  /** The Popover API */
+  popover: boolean;
+  /** The `source` option of `showPopover()` */
+  popoverSource: boolean;
+  /** `@starting-style` rules */
+  startingStyle: boolean;
+  /** `transition-behavior: allow-discrete` */
+  transitionBehavior: boolean;
+  /** `document.startViewTransition()` */
+  viewTransitions: boolean;
+};
+
+const serverCapabilities: TPlatformCapabilities = {
+  anchorPositioning: false,
+  positionTryFallbacks: false,
+  positionTryOrder: false,
+  positionVisibility: false,
+  popover: false,
+  popoverSource: false,
+  startingStyle: false,
+  transitionBehavior: false,
+  viewTransitions: false,
+};
+
+let capabilities: TPlatformCapabilities | null = null;
+
+/**
+ * The `source` dictionary member is only read by browsers that know it.
+ * The element isn't a popover, so the call throws once the options are read.
+ */
+function supportsPopoverSource(): boolean {
+  let isSupported = false;
+  try {
+    document.createElement('div').showPopover({
+      get source() {
+        isSupported = true;
+        return undefined;
+      },
+    });
+  } catch {
+    // Expected: the element is not a popover
+  }
+  return isSupported;
+}
+
+/**
+ * Detects which platform features are available. Everything is reported as
+ * unsupported on the server. The result is cached after the first call in the browser.
+ */
+export function getPlatformCapabilities(): TPlatformCapabilities {
+  if (typeof window === 'undefined') {
+    return serverCapabilities;
+  }
+
+  capabilities ??= {
+    anchorPositioning: CSS.supports('position-area', 'top') && CSS.supports('anchor-name', '--a'),
+    positionTryFallbacks: CSS.supports('position-try-fallbacks', 'flip-block'),
+    positionTryOrder: CSS.supports('position-try-order', 'most-height'),
+    positionVisibility: CSS.supports('position-visibility', 'anchors-visible'),
+    popover: Object.hasOwn(HTMLElement.prototype, 'popover'),
+    popoverSource: supportsPopoverSource(),
+    startingStyle: 'CSSStartingStyleRule' in window,
+    transitionBehavior: CSS.supports('transition-behavior', 'allow-discrete'),
+    viewTransitions: 'startViewTransition' in document,
+  };
+  return capabilities;
+}
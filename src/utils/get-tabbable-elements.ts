@@ -0,0 +1,23 @@
+const focusableSelector = [
+  'a[href]',
+  'area[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  'summary',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[tabindex]',
+].join(', ');
+
+/**
+ * Get the elements inside a container that can be reached with the Tab key, in DOM order.
+ * Elements with a negative `tabindex`, inside `inert` subtrees or not rendered are skipped.
+ */
+export function getTabbableElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(focusableSelector)).filter(
+    (element) =>
+      element.tabIndex >= 0 && !element.closest('[inert]') && element.getClientRects().length > 0,
+  );
+}
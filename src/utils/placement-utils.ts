@@ -1,5 +1,7 @@
 import { bindAll } from 'bind-event-listener';
 import type { TCleanupFn } from '@/types';
+import { combine } from './combine';
+import { getPlatformCapabilities } from './get-platform-capabilities';
 
 /**
  * Base placement directions
@@ -23,6 +25,24 @@ export type TPlacement =
   | 'right-start'
   | 'right-end';
 
+/**
+ * All extended placements, in a stable order
+ */
+export const placements: readonly TPlacement[] = [
+  'top',
+  'top-start',
+  'top-end',
+  'bottom',
+  'bottom-start',
+  'bottom-end',
+  'left',
+  'left-start',
+  'left-end',
+  'right',
+  'right-start',
+  'right-end',
+];
+
 /**
  * Alignment within a placement
  */
@@ -38,20 +58,394 @@ export type TAvailableSpace = {
   left: number;
 };
 
+/**
+ * A rectangle, such as the one returned by `getBoundingClientRect()`
+ */
+export type TRect = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Edges of a rectangle in viewport coordinates
+ */
+export type TBoundaryRect = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+/**
+ * The area the popover has to stay within.
+ * - An element or list of elements: the popover is kept inside all of them (and the viewport)
+ * - 'clipping-ancestors': every ancestor of the trigger that clips its overflow
+ */
+export type TBoundary = Element | Element[] | 'clipping-ancestors';
+
 /**
  * Strategy for updating position
+ * - 'update-on-change': scroll and resize events of the window and visual viewport
+ * - 'update-each-frame': every animation frame
+ * - 'auto': scroll and resize events, plus size changes of the trigger and popover
+ *   and layout shifts that move the trigger
+ */
+export type TFallbackStrategy = 'update-on-change' | 'update-each-frame' | 'auto';
+
+/**
+ * How fallback placements are ordered before picking the first that fits, like
+ * CSS `position-try-order`: as given, or by the most space they leave for the popover
+ */
+export type TTryOrder = 'normal' | 'most-height' | 'most-width' | 'most-block-size' | 'most-inline-size';
+
+/**
+ * A try order in physical terms, as the placement engine has no writing mode
+ */
+export type TPhysicalTryOrder = 'normal' | 'most-height' | 'most-width';
+
+/**
+ * The CSS `position` the fallback uses for the popover
+ * - 'fixed': positioned against the viewport, unless an ancestor creates a containing block
+ * - 'absolute': positioned against the nearest positioned ancestor, so it scrolls with it
+ */
+export type TPositionStrategy = 'fixed' | 'absolute';
+
+/**
+ * How the fallback writes the position. It never touches `transform`, so the popover's
+ * own transforms and entrance animations keep working.
+ * - 'inset': `top` and `left`
+ * - 'translate': the individual `translate` property, with `top` and `left` at 0
+ * - 'custom-properties': only `--popover-x` and `--popover-y`, for the popover's CSS to apply
+ */
+export type TPositionOutput = 'inset' | 'translate' | 'custom-properties';
+
+/**
+ * Where the popover's containing block sits in the viewport, used to turn viewport
+ * coordinates into `top` and `left` values. `x` and `y` include the block's scroll
+ * position, and the scale is non-1 inside scaled ancestors.
+ */
+export type TContainingBlock = {
+  x: number;
+  y: number;
+  scaleX: number;
+  scaleY: number;
+};
+
+/**
+ * Something a popover can be positioned against: an element, or a virtual anchor
+ * such as a point, a text selection `Range` or a region of a canvas.
+ * `contextElement` is the element a virtual anchor lives in. It is used to find
+ * clipping ancestors and to watch for layout changes.
+ */
+export type TVirtualAnchor = {
+  getBoundingClientRect(): TRect;
+  contextElement?: Element;
+};
+
+/**
+ * The elements involved in positioning a popover.
+ * `trigger` is `null` for a virtual anchor without a context element.
+ */
+export type TPositionedElements = {
+  trigger: Element | null;
+  popover: Element;
+};
+
+/**
+ * Options for sliding the popover along the cross axis to keep it in view
+ */
+export type TShiftOptions = {
+  /** Minimum distance in pixels between the popover and the viewport edges. Defaults to 8. */
+  padding?: number;
+};
+
+/**
+ * Shift behaviour: `true` enables it with the default padding
+ */
+export type TShift = boolean | TShiftOptions;
+
+/**
+ * How far the popover was moved to stay in view
+ */
+export type TShiftOffset = {
+  x: number;
+  y: number;
+};
+
+/**
+ * A point in viewport coordinates
+ */
+export type TCoords = {
+  x: number;
+  y: number;
+};
+
+/**
+ * Distances between the trigger and the popover
+ */
+export type TOffsetValue = {
+  /** Distance away from the trigger */
+  mainAxis: number;
+  /** Distance along the edge of the trigger, towards the right or bottom */
+  crossAxis: number;
+};
+
+/**
+ * Offset of the popover from the trigger. A number is the main-axis distance.
+ * A function receives the resolved placement, so the offset can differ per side.
+ */
+export type TOffset =
+  | number
+  | Partial<TOffsetValue>
+  | ((placement: TPlacement) => number | Partial<TOffsetValue>);
+
+/**
+ * Width and height of an element
+ */
+export type TSize = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Input for `computePosition`. All rects share one coordinate space, usually the viewport.
+ */
+export type TComputePositionOptions = {
+  /** Rect of the element the popover is anchored to */
+  anchorRect: TRect;
+  /** Size of the popover */
+  floatingSize: TSize;
+  /** The area the popover has to fit in */
+  boundary: TBoundaryRect;
+  /** Desired placement */
+  placement: TPlacement;
+  /** Distance between the anchor and the popover. Defaults to 0. */
+  offset?: TOffset;
+  /** Move to another side when the desired side doesn't fit. Defaults to true. */
+  flip?: boolean;
+  /**
+   * Placements to try, in order, when the desired placement doesn't fit.
+   * When none of them fit either, the desired placement is used.
+   * Replaces the default flip order; ignored when `flip` is false.
+   */
+  fallbackPlacements?: TPlacement[];
+  /**
+   * Sort the desired placement and its fallbacks by available space before picking.
+   * Without `fallbackPlacements` the fallback is the opposite side. Defaults to 'normal'.
+   */
+  tryOrder?: TPhysicalTryOrder;
+  /**
+   * The caller limits the popover to `availableSize`, so every placement in the try list fits
+   * and the first one is used. Defaults to false.
+   */
+  limitSize?: boolean;
+  /** The placement from the previous update, used with `hysteresis` */
+  currentPlacement?: TPlacement | null;
+  /**
+   * Pixels of extra space another placement needs before the popover leaves `currentPlacement`,
+   * and that the desired placement needs before it returns there. Defaults to 0.
+   */
+  hysteresis?: number;
+  /** Boundary padding for cross-axis shifting, or `null` to disable shifting. Defaults to `null`. */
+  shiftPadding?: number | null;
+  /** Minimum distance between the arrow and the popover corners. Defaults to 0. */
+  arrowPadding?: number;
+};
+
+/**
+ * Output of `computePosition`
+ */
+export type TComputePositionResult = {
+  /** Left edge of the popover */
+  x: number;
+  /** Top edge of the popover */
+  y: number;
+  /** The placement that was used after flipping */
+  placement: TPlacement;
+  /** How far the popover was shifted along the cross axis */
+  shift: TShiftOffset;
+  /** How far the popover extends past each boundary edge. Negative values are free space. */
+  overflow: TBoundaryRect;
+  /** Space the popover can occupy on the chosen side */
+  availableSize: TSize;
+  /**
+   * Where an arrow should sit along the popover edge facing the anchor, measured from the
+   * popover's left (top/bottom placements) or top (left/right placements) edge.
+   * It points at the anchor's center, compensating for alignment and shift.
+   */
+  arrowOffset: number;
+};
+
+/**
+ * Options shared by the JavaScript fallbacks
+ */
+export type TFallbackOptions = {
+  /** Defaults to 'update-on-change' */
+  strategy?: TFallbackStrategy;
+  /** Slide the popover along the cross axis to keep it in view. Off by default. */
+  shift?: TShift;
+  /**
+   * Publish the space left on the chosen side as `--popover-available-width` and
+   * `--popover-available-height` so the popover can be limited to it. Off by default.
+   */
+  size?: boolean;
+  /** The area used to decide where the popover fits. Defaults to the viewport. */
+  boundary?: TBoundary;
+  /** Offset from the trigger. Each fallback has its own default main-axis distance. */
+  offset?: TOffset;
+  /** Placements to try, in order, when the desired one doesn't fit. Replaces the default flip order. */
+  fallbackPlacements?: TPlacement[];
+  /** Minimum distance between the arrow and the popover corners. Defaults to 0. */
+  arrowPadding?: number;
+  /** Called with the resolved placement when the popover is first placed and after every flip */
+  onPlacementChange?: (placement: TPlacement) => void;
+  /** CSS `position` used for the popover. Defaults to 'fixed'. */
+  positionStrategy?: TPositionStrategy;
+  /** How the position is written. Defaults to 'inset'. */
+  positionOutput?: TPositionOutput;
+  /** Prefer the placement with the most room, like `position-try-order`. Defaults to 'normal'. */
+  tryOrder?: TTryOrder;
+  /**
+   * Pixels of margin before flipping, so a popover near the threshold doesn't jitter
+   * between sides while scrolling. Defaults to 0.
+   */
+  hysteresis?: number;
+};
+
+const defaultShiftPadding = 8;
+
+/**
+ * Resolve an offset option for a placement
+ */
+export function resolveOffset(offset: TOffset, placement: TPlacement): TOffsetValue {
+  const value = typeof offset === 'function' ? offset(placement) : offset;
+  if (typeof value === 'number') {
+    return { mainAxis: value, crossAxis: 0 };
+  }
+  return { mainAxis: value.mainAxis ?? 0, crossAxis: value.crossAxis ?? 0 };
+}
+
+/**
+ * Resolve the viewport padding for a shift option, or `null` when shifting is disabled
+ */
+export function getShiftPadding(shift: TShift | undefined): number | null {
+  if (!shift) {
+    return null;
+  }
+  if (shift === true) {
+    return defaultShiftPadding;
+  }
+  return shift.padding ?? defaultShiftPadding;
+}
+
+/**
+ * Check whether a value is one of the extended placements
+ */
+export function isPlacement(value: string): value is TPlacement {
+  return (placements as readonly string[]).includes(value);
+}
+
+/**
+ * Get the viewport as a boundary rect.
+ * Uses the visual viewport where available, which is the part of the page that is
+ * actually on screen when pinch-zoomed or when an on-screen keyboard is open.
+ * Its offsets are relative to the layout viewport, like `getBoundingClientRect()`.
+ */
+export function getViewportRect(): TBoundaryRect {
+  const { visualViewport } = window;
+  if (visualViewport) {
+    return {
+      top: visualViewport.offsetTop,
+      right: visualViewport.offsetLeft + visualViewport.width,
+      bottom: visualViewport.offsetTop + visualViewport.height,
+      left: visualViewport.offsetLeft,
+    };
+  }
+
+  return {
+    top: 0,
+    right: window.innerWidth,
+    bottom: window.innerHeight,
+    left: 0,
+  };
+}
+
+function isClippingElement(element: Element): boolean {
+  const { overflowX, overflowY } = getComputedStyle(element);
+  return overflowX !== 'visible' || overflowY !== 'visible';
+}
+
+/**
+ * Get the element in the document that an anchor belongs to, if any
  */
-export type TFallbackStrategy = 'update-on-change' | 'update-each-frame';
+export function getAnchorElement(anchor: TVirtualAnchor): Element | null {
+  return anchor instanceof Element ? anchor : (anchor.contextElement ?? null);
+}
+
+/**
+ * Resolve a boundary option to the elements that clip the popover.
+ * The root element is skipped as the viewport already covers it.
+ */
+export function getBoundaryElements(
+  trigger: Element | null,
+  boundary: TBoundary | undefined,
+): Element[] {
+  if (!boundary) {
+    return [];
+  }
+
+  if (boundary !== 'clipping-ancestors') {
+    return Array.isArray(boundary) ? boundary : [boundary];
+  }
+
+  const elements: Element[] = [];
+  let current = trigger?.parentElement;
+  while (current && current !== document.documentElement) {
+    if (isClippingElement(current)) {
+      elements.push(current);
+    }
+    current = current.parentElement;
+  }
+  return elements;
+}
+
+/**
+ * Get the area that is visible through the viewport and all boundary elements.
+ * Each element clips at its padding box, so borders and scrollbars are excluded.
+ */
+export function getBoundaryRect(elements: Element[]): TBoundaryRect {
+  const rect = getViewportRect();
+
+  for (const element of elements) {
+    const elementRect = element.getBoundingClientRect();
+    const left = elementRect.left + element.clientLeft;
+    const top = elementRect.top + element.clientTop;
+
+    rect.top = Math.max(rect.top, top);
+    rect.right = Math.min(rect.right, left + element.clientWidth);
+    rect.bottom = Math.min(rect.bottom, top + element.clientHeight);
+    rect.left = Math.max(rect.left, left);
+  }
+
+  return rect;
+}
 
 /**
  * Get available space around a trigger element
  */
-export function getAvailableSpace(triggerRect: DOMRect): TAvailableSpace {
+export function getAvailableSpace(
+  triggerRect: TRect,
+  boundaryRect: TBoundaryRect = getViewportRect(),
+): TAvailableSpace {
   return {
-    top: triggerRect.top,
-    right: window.innerWidth - triggerRect.right,
-    bottom: window.innerHeight - triggerRect.bottom,
-    left: triggerRect.left,
+    top: triggerRect.top - boundaryRect.top,
+    right: boundaryRect.right - triggerRect.right,
+    bottom: boundaryRect.bottom - triggerRect.bottom,
+    left: triggerRect.left - boundaryRect.left,
   };
 }
 
@@ -95,20 +489,52 @@ export function getOppositePlacement(placement: TBasePlacement): TBasePlacement
   return opposites[placement];
 }
 
+/**
+ * The placement on the opposite side with the same alignment, as native
+ * `flip-block` and `flip-inline` produce
+ */
+export function getFlippedPlacement(placement: TPlacement): TPlacement {
+  return buildPlacement(getOppositePlacement(getBasePlacement(placement)), getAlignment(placement));
+}
+
+/**
+ * Work out which candidate placement the popover ended up in from where it sits
+ * relative to the anchor. Used when the browser, rather than this engine, picks the placement.
+ */
+export function getPlacementFromRects(
+  anchorRect: TRect,
+  popoverRect: TRect,
+  candidates: TPlacement[],
+): TPlacement {
+  const distances: Record<TBasePlacement, number> = {
+    top: anchorRect.top - popoverRect.bottom,
+    bottom: popoverRect.top - anchorRect.bottom,
+    left: anchorRect.left - popoverRect.right,
+    right: popoverRect.left - anchorRect.right,
+  };
+  const sides = Object.keys(distances) as TBasePlacement[];
+  const side = sides.reduce((best, current) => (distances[current] > distances[best] ? current : best));
+
+  return (
+    candidates.find((candidate) => getBasePlacement(candidate) === side) ??
+    buildPlacement(side, getAlignment(candidates[0]))
+  );
+}
+
 /**
  * Get the best base placement considering available space
  */
 export function getBestBasePlacement(
   desired: TBasePlacement,
   available: TAvailableSpace,
-  popoverRect: DOMRect,
+  popoverSize: TSize,
   gap: number,
 ): TBasePlacement {
   const spaceNeeded = {
-    top: popoverRect.height + gap,
-    bottom: popoverRect.height + gap,
-    left: popoverRect.width + gap,
-    right: popoverRect.width + gap,
+    top: popoverSize.height + gap,
+    bottom: popoverSize.height + gap,
+    left: popoverSize.width + gap,
+    right: popoverSize.width + gap,
   };
 
   // If there's enough space for the desired placement, use it
@@ -137,52 +563,798 @@ export function getBestBasePlacement(
 }
 
 /**
- * Bind positioning updates on scroll and resize events
+ * Get the space left over on a placement's side once the popover is placed there.
+ * Negative when the popover doesn't fit.
+ */
+function getPlacementSlack(
+  placement: TPlacement,
+  available: TAvailableSpace,
+  popoverSize: TSize,
+  offset: TOffset,
+): number {
+  const base = getBasePlacement(placement);
+  const size = base === 'top' || base === 'bottom' ? popoverSize.height : popoverSize.width;
+  return available[base] - size - resolveOffset(offset, placement).mainAxis;
+}
+
+/**
+ * Get the first placement with enough space on its side
+ */
+function getFirstFittingPlacement(
+  tryPlacements: TPlacement[],
+  available: TAvailableSpace,
+  popoverSize: TSize,
+  offset: TOffset,
+): TPlacement | undefined {
+  return tryPlacements.find(
+    (placement) => getPlacementSlack(placement, available, popoverSize, offset) >= 0,
+  );
+}
+
+/**
+ * Decide whether to move from the current placement to the newly picked one.
+ * A current placement that no longer fits is always left for a picked one that does.
+ * Otherwise, moving back to the desired placement needs `hysteresis` pixels to spare there,
+ * and moving anywhere else needs that much more space than the current placement has.
+ * This stops a popover near the threshold from flipping back and forth while scrolling.
+ */
+function getStablePlacement(
+  picked: TPlacement,
+  currentPlacement: TPlacement,
+  desiredPlacement: TPlacement,
+  hysteresis: number,
+  available: TAvailableSpace,
+  popoverSize: TSize,
+  offset: TOffset,
+): TPlacement {
+  if (picked === currentPlacement) {
+    return picked;
+  }
+
+  const pickedSlack = getPlacementSlack(picked, available, popoverSize, offset);
+  const currentSlack = getPlacementSlack(currentPlacement, available, popoverSize, offset);
+  if (currentSlack < 0 && pickedSlack >= 0) {
+    return picked;
+  }
+
+  const isBetter =
+    picked === desiredPlacement
+      ? pickedSlack >= hysteresis
+      : pickedSlack - currentSlack >= hysteresis;
+  return isBetter ? picked : currentPlacement;
+}
+
+/**
+ * Order placements by the space they leave for the popover, roomiest first.
+ * The sort is stable, so equally roomy placements keep their order.
+ */
+function sortByTryOrder(
+  tryPlacements: TPlacement[],
+  tryOrder: TPhysicalTryOrder,
+  anchorRect: TRect,
+  boundary: TBoundaryRect,
+  offset: TOffset,
+): TPlacement[] {
+  if (tryOrder === 'normal') {
+    return tryPlacements;
+  }
+
+  const dimension = tryOrder === 'most-height' ? 'height' : 'width';
+  const getSpace = (placement: TPlacement) =>
+    getAvailableSize(placement, anchorRect, boundary, resolveOffset(offset, placement).mainAxis)[
+      dimension
+    ];
+
+  return [...tryPlacements].sort((a, b) => getSpace(b) - getSpace(a));
+}
+
+/**
+ * Resolve a logical try order against a writing mode
+ */
+export function getPhysicalTryOrder(tryOrder: TTryOrder, writingMode: string): TPhysicalTryOrder {
+  const isVertical = writingMode !== 'horizontal-tb';
+  if (tryOrder === 'most-block-size') {
+    return isVertical ? 'most-width' : 'most-height';
+  }
+  if (tryOrder === 'most-inline-size') {
+    return isVertical ? 'most-height' : 'most-width';
+  }
+  return tryOrder;
+}
+
+/**
+ * Get how far the popover needs to slide along the cross axis to stay within the boundary.
+ * The shift is limited so that the popover always keeps overlapping the trigger.
+ */
+export function getShiftOffset(
+  placement: TPlacement,
+  coords: TCoords,
+  triggerRect: TRect,
+  popoverSize: TSize,
+  boundaryRect: TBoundaryRect,
+  padding: number,
+): TShiftOffset {
+  const base = getBasePlacement(placement);
+  const isVertical = base === 'top' || base === 'bottom';
+
+  const triggerStart = isVertical ? triggerRect.left : triggerRect.top;
+  const triggerEnd = isVertical ? triggerRect.right : triggerRect.bottom;
+  const size = isVertical ? popoverSize.width : popoverSize.height;
+  const boundaryStart = isVertical ? boundaryRect.left : boundaryRect.top;
+  const boundaryEnd = isVertical ? boundaryRect.right : boundaryRect.bottom;
+  const desired = isVertical ? coords.x : coords.y;
+
+  // Keep inside the boundary. A popover larger than the boundary sticks to the start edge.
+  const inView = Math.max(
+    boundaryStart + padding,
+    Math.min(desired, boundaryEnd - padding - size),
+  );
+  // Never slide so far that the popover detaches from the trigger
+  const attached = Math.min(Math.max(inView, triggerStart - size), triggerEnd);
+  const offset = attached - desired;
+
+  return isVertical ? { x: offset, y: 0 } : { x: 0, y: offset };
+}
+
+/**
+ * Get the space the popover can occupy once it is placed on the chosen side of the trigger.
+ * With `shiftPadding` the popover is slid back into the boundary, so it can use the
+ * boundary's whole cross axis.
+ */
+export function getAvailableSize(
+  placement: TPlacement,
+  triggerRect: TRect,
+  boundaryRect: TBoundaryRect,
+  gap: number,
+  shiftPadding: number | null = null,
+): TSize {
+  const available = getAvailableSpace(triggerRect, boundaryRect);
+  const base = getBasePlacement(placement);
+  const alignment = getAlignment(placement);
+  const isVertical = base === 'top' || base === 'bottom';
+
+  const mainAxis = Math.max(0, available[base] - gap);
+
+  // Cross axis: start aligned popovers grow towards the end, end aligned towards the start
+  // and centered popovers span the whole boundary, like a single-keyword `position-area`
+  const before = isVertical ? available.left : available.top;
+  const after = isVertical ? available.right : available.bottom;
+  const triggerSize = isVertical ? triggerRect.width : triggerRect.height;
+
+  let crossAxis = triggerSize + before + after;
+  if (shiftPadding != null) {
+    crossAxis -= 2 * shiftPadding;
+  } else if (alignment === 'start') {
+    crossAxis = triggerSize + after;
+  } else if (alignment === 'end') {
+    crossAxis = triggerSize + before;
+  }
+  crossAxis = Math.max(0, crossAxis);
+
+  return isVertical
+    ? { width: crossAxis, height: mainAxis }
+    : { width: mainAxis, height: crossAxis };
+}
+
+/**
+ * Publish the available size as custom properties
+ */
+export function applyAvailableSize(popover: HTMLElement, size: TSize): void {
+  popover.style.setProperty('--popover-available-width', `${size.width}px`);
+  popover.style.setProperty('--popover-available-height', `${size.height}px`);
+}
+
+/**
+ * Remove the available size custom properties so the popover can be measured at its natural size
+ */
+export function clearAvailableSize(popover: HTMLElement): void {
+  popover.style.removeProperty('--popover-available-width');
+  popover.style.removeProperty('--popover-available-height');
+}
+
+/**
+ * Get the top left corner of a popover placed next to the anchor, before any shifting
+ */
+function getPlacementCoords(
+  placement: TPlacement,
+  anchorRect: TRect,
+  floatingSize: TSize,
+  { mainAxis, crossAxis }: TOffsetValue,
+): TCoords {
+  const base = getBasePlacement(placement);
+  const alignment = getAlignment(placement);
+  const isVertical = base === 'top' || base === 'bottom';
+
+  const anchorStart = isVertical ? anchorRect.left : anchorRect.top;
+  const anchorEnd = isVertical ? anchorRect.right : anchorRect.bottom;
+  const size = isVertical ? floatingSize.width : floatingSize.height;
+
+  let cross = anchorStart + (anchorEnd - anchorStart) / 2 - size / 2;
+  if (alignment === 'start') {
+    cross = anchorStart;
+  } else if (alignment === 'end') {
+    cross = anchorEnd - size;
+  }
+  cross += crossAxis;
+
+  if (base === 'top') {
+    return { x: cross, y: anchorRect.top - mainAxis - floatingSize.height };
+  }
+  if (base === 'bottom') {
+    return { x: cross, y: anchorRect.bottom + mainAxis };
+  }
+  if (base === 'left') {
+    return { x: anchorRect.left - mainAxis - floatingSize.width, y: cross };
+  }
+  return { x: anchorRect.right + mainAxis, y: cross };
+}
+
+/**
+ * Get where an arrow pointing at the anchor's center sits along the popover edge
+ */
+function getArrowOffset(
+  placement: TPlacement,
+  coords: TCoords,
+  anchorRect: TRect,
+  floatingSize: TSize,
+  padding: number,
+): number {
+  const base = getBasePlacement(placement);
+  const isVertical = base === 'top' || base === 'bottom';
+
+  const anchorCenter = isVertical
+    ? anchorRect.left + anchorRect.width / 2
+    : anchorRect.top + anchorRect.height / 2;
+  const start = isVertical ? coords.x : coords.y;
+  const size = isVertical ? floatingSize.width : floatingSize.height;
+
+  // Keep the arrow clear of the corners. A popover too small for the padding centers it.
+  const min = Math.min(padding, size / 2);
+  return Math.min(Math.max(anchorCenter - start, min), size - min);
+}
+
+/**
+ * Compute where a popover should be placed.
+ *
+ * This is pure: it doesn't read from or write to the DOM, so it can be unit tested
+ * and used outside the browser. The JavaScript fallbacks are DOM adapters around it.
+ */
+export function computePosition({
+  anchorRect,
+  floatingSize,
+  boundary,
+  placement: desiredPlacement,
+  offset = 0,
+  flip = true,
+  fallbackPlacements,
+  tryOrder = 'normal',
+  limitSize = false,
+  currentPlacement = null,
+  hysteresis = 0,
+  shiftPadding = null,
+  arrowPadding = 0,
+}: TComputePositionOptions): TComputePositionResult {
+  let placement = desiredPlacement;
+  if (flip && (fallbackPlacements || tryOrder !== 'normal')) {
+    const tryPlacements = sortByTryOrder(
+      [desiredPlacement, ...(fallbackPlacements ?? [getFlippedPlacement(desiredPlacement)])],
+      tryOrder,
+      anchorRect,
+      boundary,
+      offset,
+    );
+    placement = limitSize
+      ? tryPlacements[0]
+      : (getFirstFittingPlacement(
+          tryPlacements,
+          getAvailableSpace(anchorRect, boundary),
+          floatingSize,
+          offset,
+        ) ?? desiredPlacement);
+  } else if (flip) {
+    const available = getAvailableSpace(anchorRect, boundary);
+    const base = getBestBasePlacement(
+      getBasePlacement(desiredPlacement),
+      available,
+      floatingSize,
+      resolveOffset(offset, desiredPlacement).mainAxis,
+    );
+    placement = buildPlacement(base, getAlignment(desiredPlacement));
+  }
+
+  if (flip && currentPlacement && hysteresis > 0) {
+    placement = getStablePlacement(
+      placement,
+      currentPlacement,
+      desiredPlacement,
+      hysteresis,
+      getAvailableSpace(anchorRect, boundary),
+      floatingSize,
+      offset,
+    );
+  }
+
+  const resolvedOffset = resolveOffset(offset, placement);
+  const coords = getPlacementCoords(placement, anchorRect, floatingSize, resolvedOffset);
+  const shift =
+    shiftPadding == null
+      ? { x: 0, y: 0 }
+      : getShiftOffset(placement, coords, anchorRect, floatingSize, boundary, shiftPadding);
+
+  const x = coords.x + shift.x;
+  const y = coords.y + shift.y;
+  const arrowOffset = getArrowOffset(placement, { x, y }, anchorRect, floatingSize, arrowPadding);
+
+  return {
+    x,
+    y,
+    placement,
+    shift,
+    overflow: {
+      top: boundary.top - y,
+      right: x + floatingSize.width - boundary.right,
+      bottom: y + floatingSize.height - boundary.bottom,
+      left: boundary.left - x,
+    },
+    availableSize: getAvailableSize(
+      placement,
+      anchorRect,
+      boundary,
+      resolvedOffset.mainAxis,
+      shiftPadding,
+    ),
+    arrowOffset,
+  };
+}
+
+/**
+ * Get the layout size of an element. Unlike `getBoundingClientRect()` this ignores
+ * transforms, so entrance animations don't affect the measurement.
+ */
+export function getElementSize(element: HTMLElement): TSize {
+  return {
+    width: element.offsetWidth,
+    height: element.offsetHeight,
+  };
+}
+
+/**
+ * Whether an element is the containing block for `position: fixed` descendants,
+ * which is the case for transforms, filters, paint or layout containment and
+ * `will-change` of those properties
+ */
+function isFixedContainingBlock(style: CSSStyleDeclaration): boolean {
+  return (
+    style.transform !== 'none' ||
+    style.translate !== 'none' ||
+    style.rotate !== 'none' ||
+    style.scale !== 'none' ||
+    style.perspective !== 'none' ||
+    style.filter !== 'none' ||
+    style.backdropFilter !== 'none' ||
+    /paint|layout|strict|content/.test(style.contain) ||
+    /transform|translate|rotate|scale|perspective|filter/.test(style.willChange) ||
+    (style.containerType !== '' && style.containerType !== 'normal') ||
+    style.contentVisibility === 'auto'
+  );
+}
+
+function getElementContainingBlock(element: Element): TContainingBlock {
+  const rect = element.getBoundingClientRect();
+  const scaleX =
+    element instanceof HTMLElement && element.offsetWidth ? rect.width / element.offsetWidth : 1;
+  const scaleY =
+    element instanceof HTMLElement && element.offsetHeight ? rect.height / element.offsetHeight : 1;
+
+  return {
+    x: rect.left + (element.clientLeft - element.scrollLeft) * scaleX,
+    y: rect.top + (element.clientTop - element.scrollTop) * scaleY,
+    scaleX,
+    scaleY,
+  };
+}
+
+/**
+ * Find the containing block the popover's `top` and `left` are relative to.
+ * An open popover is in the top layer, where ancestors no longer matter: fixed
+ * positions are relative to the viewport and absolute ones to the document.
+ */
+export function getContainingBlock(
+  popover: HTMLElement,
+  positionStrategy: TPositionStrategy,
+): TContainingBlock {
+  const initial: TContainingBlock =
+    positionStrategy === 'fixed'
+      ? { x: 0, y: 0, scaleX: 1, scaleY: 1 }
+      : { x: -window.scrollX, y: -window.scrollY, scaleX: 1, scaleY: 1 };
+
+  // Without the Popover API the selector doesn't parse, and nothing is in the top layer
+  if (getPlatformCapabilities().popover && popover.matches(':popover-open, :modal')) {
+    return initial;
+  }
+
+  let current = popover.parentElement;
+  while (current) {
+    const style = getComputedStyle(current);
+    if (
+      isFixedContainingBlock(style) ||
+      (positionStrategy === 'absolute' && style.position !== 'static')
+    ) {
+      return getElementContainingBlock(current);
+    }
+    current = current.parentElement;
+  }
+
+  return initial;
+}
+
+/**
+ * Round to the nearest device pixel, so text isn't blurred by a fractional offset
+ */
+function snapToDevicePixel(value: number): number {
+  const ratio = window.devicePixelRatio || 1;
+  return Math.round(value * ratio) / ratio;
+}
+
+/**
+ * Write a computed position to the popover.
+ *
+ * So that arrows can be drawn, the resolved placement is exposed as `data-placement` and
+ * the arrow position as `--popover-arrow-offset`. The shift offset is reported through
+ * `--popover-shift-x` and `--popover-shift-y`.
+ * The viewport coordinates are converted for the containing block, which callers that
+ * batch reads should measure up front with `getContainingBlock`, and snapped to device pixels.
+ * They are always exposed as `--popover-x` and `--popover-y`; see `TPositionOutput`.
+ */
+export function applyPosition(
+  popover: HTMLElement,
+  { x, y, placement, shift, arrowOffset }: TComputePositionResult,
+  positionStrategy: TPositionStrategy = 'fixed',
+  containingBlock: TContainingBlock = getContainingBlock(popover, positionStrategy),
+  positionOutput: TPositionOutput = 'inset',
+): void {
+  const left = `${snapToDevicePixel((x - containingBlock.x) / containingBlock.scaleX)}px`;
+  const top = `${snapToDevicePixel((y - containingBlock.y) / containingBlock.scaleY)}px`;
+
+  popover.style.position = positionStrategy;
+  popover.style.setProperty('--popover-x', left);
+  popover.style.setProperty('--popover-y', top);
+  if (positionOutput === 'inset') {
+    popover.style.top = top;
+    popover.style.left = left;
+  } else if (positionOutput === 'translate') {
+    popover.style.top = '0px';
+    popover.style.left = '0px';
+    popover.style.translate = `${left} ${top}`;
+  } else {
+    popover.style.top = '';
+    popover.style.left = '';
+  }
+  popover.style.right = '';
+  popover.style.bottom = '';
+  popover.style.setProperty('--popover-shift-x', `${shift.x}px`);
+  popover.style.setProperty('--popover-shift-y', `${shift.y}px`);
+  popover.style.setProperty('--popover-arrow-offset', `${arrowOffset}px`);
+  popover.setAttribute('data-placement', placement);
+}
+
+/**
+ * Remove everything `applyPosition` wrote, so that the popover's own styles apply again,
+ * for example the native anchor positioning classes after switching from the fallback
+ */
+export function clearPosition(
+  popover: HTMLElement,
+  positionOutput: TPositionOutput = 'inset',
+): void {
+  for (const property of ['position', 'top', 'left', 'right', 'bottom']) {
+    popover.style.removeProperty(property);
+  }
+  if (positionOutput === 'translate') {
+    popover.style.removeProperty('translate');
+  }
+  popover.style.removeProperty('--popover-x');
+  popover.style.removeProperty('--popover-y');
+  popover.style.removeProperty('--popover-shift-x');
+  popover.style.removeProperty('--popover-shift-y');
+  popover.style.removeProperty('--popover-arrow-offset');
+  popover.removeAttribute('data-placement');
+}
+
+/**
+ * A positioning update in two phases: it measures, then returns a function that
+ * writes the result. Keeping the phases apart lets many updates share one layout.
+ * `prepare` holds writes that have to land before the update measures, such as
+ * removing an earlier size limit.
+ */
+export type TPositionUpdate = {
+  (): (() => void) | undefined;
+  prepare?: () => void;
+};
+
+/**
+ * Run updates with every read before any write, so that a write from one popover
+ * doesn't force a new layout for the next popover's reads. Every `prepare` runs first,
+ * so together they cost a single layout.
+ */
+export function runUpdates(updates: Iterable<TPositionUpdate>): void {
+  const batch = [...updates];
+  for (const update of batch) {
+    update.prepare?.();
+  }
+
+  const writes: (() => void)[] = [];
+  for (const update of batch) {
+    const write = update();
+    if (write) {
+      writes.push(write);
+    }
+  }
+  for (const write of writes) {
+    write();
+  }
+}
+
+/*
+ * A scheduler shared by every positioned popover: one set of scroll and resize
+ * listeners and one animation frame, however many popovers are open. Events are
+ * coalesced into the next frame, and everything is torn down when the last
+ * subscriber leaves.
+ */
+const changeSubscribers = new Set<TPositionUpdate>();
+const frameSubscribers = new Set<TPositionUpdate>();
+const pendingUpdates = new Set<TPositionUpdate>();
+let frameId: number | null = null;
+let unbindChangeListeners: TCleanupFn | null = null;
+
+function flushUpdates() {
+  frameId = null;
+  const updates = [...new Set([...pendingUpdates, ...frameSubscribers])];
+  pendingUpdates.clear();
+  runUpdates(updates);
+
+  if (frameSubscribers.size) {
+    requestFlush();
+  }
+}
+
+function requestFlush() {
+  if (frameId == null) {
+    frameId = requestAnimationFrame(flushUpdates);
+  }
+}
+
+function onChange() {
+  for (const update of changeSubscribers) {
+    pendingUpdates.add(update);
+  }
+  requestFlush();
+}
+
+function bindChangeListeners(): TCleanupFn {
+  const cleanupFns: TCleanupFn[] = [
+    bindAll(window, [
+      { type: 'scroll', listener: onChange, options: { capture: true, passive: true } },
+      { type: 'resize', listener: onChange, options: { passive: true } },
+    ]),
+  ];
+
+  // Pinch-zoom and on-screen keyboards only move and resize the visual viewport
+  if (window.visualViewport) {
+    cleanupFns.push(
+      bindAll(window.visualViewport, [
+        { type: 'scroll', listener: onChange, options: { passive: true } },
+        { type: 'resize', listener: onChange, options: { passive: true } },
+      ]),
+    );
+  }
+
+  return combine(...cleanupFns);
+}
+
+function unsubscribe(update: TPositionUpdate) {
+  changeSubscribers.delete(update);
+  frameSubscribers.delete(update);
+  pendingUpdates.delete(update);
+
+  if (!changeSubscribers.size && unbindChangeListeners) {
+    unbindChangeListeners();
+    unbindChangeListeners = null;
+  }
+  if (!frameSubscribers.size && !pendingUpdates.size && frameId != null) {
+    cancelAnimationFrame(frameId);
+    frameId = null;
+  }
+}
+
+/**
+ * Bind positioning updates on scroll and resize events of the window and visual viewport
  */
 export function bindUpdateOnChange(
-  updateFn: () => void,
+  updateFn: TPositionUpdate,
 ): TCleanupFn {
-  updateFn();
+  // Wrapped so that binding the same function twice gives two subscriptions
+  const update: TPositionUpdate = Object.assign(() => updateFn(), { prepare: updateFn.prepare });
+
+  runUpdates([update]);
+  changeSubscribers.add(update);
 
-  return bindAll(window, [
-    { type: 'scroll', listener: updateFn, options: { capture: true, passive: true } },
-    { type: 'resize', listener: updateFn, options: { passive: true } },
-  ]);
+  unbindChangeListeners ??= bindChangeListeners();
+
+  return () => unsubscribe(update);
 }
 
 /**
  * Bind positioning updates on every animation frame
  */
 export function bindUpdateEachFrame(
-  updateFn: () => void,
+  updateFn: TPositionUpdate,
 ): TCleanupFn {
-  let frameId: number;
-  let isRunning = true;
+  const update: TPositionUpdate = Object.assign(() => updateFn(), { prepare: updateFn.prepare });
+
+  frameSubscribers.add(update);
+  requestFlush();
+
+  return () => unsubscribe(update);
+}
+
+/**
+ * Call `onMove` whenever the element moves without a scroll or resize event,
+ * such as when content above it changes size.
+ *
+ * An IntersectionObserver is given a root margin that shrinks the root to exactly
+ * the element's rect, so any movement changes the intersection ratio.
+ */
+export function bindElementMove(element: Element, onMove: () => void): TCleanupFn {
+  let observer: IntersectionObserver | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  function disconnect() {
+    clearTimeout(timeoutId);
+    observer?.disconnect();
+    observer = null;
+  }
+
+  function observe(threshold: number) {
+    disconnect();
 
-  function tick() {
-    updateFn();
-    if (isRunning) {
-      frameId = requestAnimationFrame(tick);
+    const { top, right, bottom, left, width, height } = element.getBoundingClientRect();
+    if (!width || !height) {
+      return;
     }
+
+    const root = document.documentElement;
+    const rootMargin = [
+      top,
+      root.clientWidth - right,
+      root.clientHeight - bottom,
+      left,
+    ]
+      .map((inset) => `${-Math.floor(inset)}px`)
+      .join(' ');
+
+    let isFirstUpdate = true;
+
+    observer = new IntersectionObserver(
+      ([entry]) => {
+        const ratio = entry.intersectionRatio;
+
+        if (ratio !== threshold) {
+          if (!isFirstUpdate) {
+            onMove();
+            observe(1);
+            return;
+          }
+
+          // The element is partially clipped, so watch for changes from its visible ratio.
+          // When it is fully hidden, wait before trying again to avoid observing in a loop.
+          if (ratio) {
+            observe(ratio);
+          } else {
+            timeoutId = setTimeout(() => observe(1e-7), 1000);
+          }
+          return;
+        }
+
+        isFirstUpdate = false;
+      },
+      { rootMargin, threshold },
+    );
+    observer.observe(element);
   }
 
-  frameId = requestAnimationFrame(tick);
+  observe(1);
 
-  return function cleanup() {
-    isRunning = false;
-    cancelAnimationFrame(frameId);
+  return disconnect;
+}
+
+/*
+ * One ResizeObserver shared by every 'auto' popover, so that the size changes reported
+ * together are also measured and written together
+ */
+const resizeSubscribers = new Map<Element, Set<TPositionUpdate>>();
+let resizeObserver: ResizeObserver | null = null;
+
+function onResize(entries: ResizeObserverEntry[]) {
+  const updates = new Set<TPositionUpdate>();
+  for (const { target } of entries) {
+    for (const update of resizeSubscribers.get(target) ?? []) {
+      updates.add(update);
+    }
+  }
+  runUpdates(updates);
+}
+
+function observeResize(element: Element, update: TPositionUpdate): TCleanupFn {
+  resizeObserver ??= new ResizeObserver(onResize);
+
+  let subscribers = resizeSubscribers.get(element);
+  if (!subscribers) {
+    subscribers = new Set();
+    resizeSubscribers.set(element, subscribers);
+    resizeObserver.observe(element);
+  }
+  subscribers.add(update);
+
+  return () => {
+    subscribers.delete(update);
+    if (subscribers.size) {
+      return;
+    }
+    resizeSubscribers.delete(element);
+    resizeObserver?.unobserve(element);
+    if (!resizeSubscribers.size) {
+      resizeObserver?.disconnect();
+      resizeObserver = null;
+    }
   };
 }
 
+/**
+ * Bind positioning updates on scroll and resize events, size changes of the
+ * trigger and popover, and layout shifts of the trigger.
+ * Size changes update straight away rather than in the next frame, as they are reported
+ * after this frame's animation callbacks and waiting would show a stale position.
+ * Layout shifts are reported after the frame is painted, so they join the next frame's batch.
+ */
+export function bindUpdateAuto(
+  updateFn: TPositionUpdate,
+  { trigger, popover }: TPositionedElements,
+): TCleanupFn {
+  const update: TPositionUpdate = Object.assign(() => updateFn(), { prepare: updateFn.prepare });
+
+  const cleanupFns: TCleanupFn[] = [
+    bindUpdateOnChange(updateFn),
+    observeResize(popover, update),
+    () => unsubscribe(update),
+  ];
+
+  // A virtual anchor without a context element has nothing to observe
+  if (trigger) {
+    cleanupFns.push(
+      observeResize(trigger, update),
+      bindElementMove(trigger, () => {
+        pendingUpdates.add(update);
+        requestFlush();
+      }),
+    );
+  }
+
+  return combine(...cleanupFns);
+}
+
 /**
  * Bind positioning updates based on strategy
  */
 export function bindPositionUpdates(
-  updateFn: () => void,
+  updateFn: TPositionUpdate,
   strategy: TFallbackStrategy,
+  elements: TPositionedElements,
 ): TCleanupFn {
   if (strategy === 'update-each-frame') {
     return bindUpdateEachFrame(updateFn);
   }
+  if (strategy === 'auto') {
+    return bindUpdateAuto(updateFn, elements);
+  }
   return bindUpdateOnChange(updateFn);
 }
@@ -0,0 +1,61 @@
+import {
+  getBasePlacement,
+  type TBasePlacement,
+  type TCoords,
+  type TPlacement,
+  type TRect,
+} from './placement-utils';
+
+/**
+ * The side of the popover facing the pointer: the side it was placed on when known,
+ * otherwise worked out from where the pointer is
+ */
+function getFacingSide(point: TCoords, rect: TRect, placement: TPlacement | null): TBasePlacement {
+  if (placement) {
+    return getBasePlacement(placement);
+  }
+  if (point.x <= rect.left) {
+    return 'right';
+  }
+  if (point.x >= rect.right) {
+    return 'left';
+  }
+  return point.y <= rect.top ? 'bottom' : 'top';
+}
+
+/**
+ * The corridor the pointer can travel through from `point` to a popover without the
+ * popover closing: a triangle from the point to the corners of the popover edge that
+ * faces it. Pass the popover's resolved placement (its `data-placement`) when known.
+ */
+export function getSafePolygon(
+  point: TCoords,
+  rect: TRect,
+  placement: TPlacement | null = null,
+): TCoords[] {
+  switch (getFacingSide(point, rect, placement)) {
+    case 'right':
+      return [point, { x: rect.left, y: rect.top }, { x: rect.left, y: rect.bottom }];
+    case 'left':
+      return [point, { x: rect.right, y: rect.top }, { x: rect.right, y: rect.bottom }];
+    case 'bottom':
+      return [point, { x: rect.left, y: rect.top }, { x: rect.right, y: rect.top }];
+    case 'top':
+      return [point, { x: rect.left, y: rect.bottom }, { x: rect.right, y: rect.bottom }];
+  }
+}
+
+/**
+ * Whether a point is inside a polygon, by counting the edges a ray from it crosses
+ */
+export function isPointInPolygon({ x, y }: TCoords, polygon: TCoords[]): boolean {
+  let isInside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      isInside = !isInside;
+    }
+  }
+  return isInside;
+}
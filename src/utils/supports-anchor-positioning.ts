@@ -1,9 +1,9 @@
+import { getPlatformCapabilities } from './get-platform-capabilities';
+
 /**
  * Checks if the browser supports CSS Anchor Positioning.
+ * See `getPlatformCapabilities` for the related features, which can ship separately.
  */
 export function supportsAnchorPositioning(): boolean {
-  if (typeof window === 'undefined') {
-    return false;
-  }
-  return CSS.supports('position-area', 'top');
+  return getPlatformCapabilities().anchorPositioning;
 }
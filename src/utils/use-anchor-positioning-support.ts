@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+import { supportsAnchorPositioning } from './supports-anchor-positioning';
+
+// Support can't change while the page is open
+function subscribe() {
+  return () => {};
+}
+
+function getServerSnapshot() {
+  return false;
+}
+
+/**
+ * Whether CSS Anchor Positioning is supported, safe to read during render.
+ * The server and the hydration render see `false`, then the client re-renders with the
+ * real value, so server-rendered markup hydrates without a mismatch.
+ */
+export function useAnchorPositioningSupport(): boolean {
+  return useSyncExternalStore(subscribe, supportsAnchorPositioning, getServerSnapshot);
+}